@@ -1,20 +1,44 @@
-import { App, Plugin, PluginSettingTab, Setting, ItemView, WorkspaceLeaf, TFile, setIcon, TAbstractFile, MarkdownRenderer } from 'obsidian';
-
-// Define plugin settings interface
-interface ManuscriptCalendarSettings {
-    manuscriptFolder: string;
-    defaultPublishStage?: string;
-    debugMode?: boolean;
-}
+import { App, Plugin, PluginSettingTab, Setting, ItemView, WorkspaceLeaf, TFile, setIcon, MarkdownRenderer, DropdownComponent, debounce, Menu } from 'obsidian';
+import { SceneIndex, SceneRecord, isSceneComplete, parseKeyList, sceneHasStatus } from './src/sceneIndex';
+import { ManuscriptCalendarSettings, FilterCondition, DEFAULT_SETTINGS, DEFAULT_FIELD_MAPPING, DEFAULT_COLOR_SETTINGS, ColorMode, copyColorSettings, DEFAULT_PLANNER_SETTINGS, DEFAULT_WORD_COUNT_SETTINGS, SceneFieldMapping, SceneMatchMode, ViewMode, WordCountExclusions, WordCountSource } from './src/settings';
+import { StagePipeline, DEFAULT_STAGES, cloneStages } from './src/stages';
+import { ProjectSet, ProjectProfile, ALL_PROJECTS, createProject, normalizeProject, normalizeFolder, parseFolderList } from './src/projects';
+import { LocalDate } from './src/dates';
+import { WeekScheme, WeekNumbering, WEEKDAY_NAMES, WEEKDAY_LABELS } from './src/weeks';
+import { Rescheduler } from './src/reschedule';
+import { SceneCreator } from './src/sceneCreator';
+import { AgendaView, VIEW_TYPE_MANUSCRIPT_AGENDA } from './src/agendaView';
+import { StatisticsModal } from './src/statistics';
+import { WordCounter } from './src/wordCounter';
+import { WordHistory } from './src/wordHistory';
+import { IcsExporter } from './src/icsExport';
+import { IcsOverlay } from './src/icsImport';
+import { ProgressReportModal } from './src/progressReport';
+import { Milestone, MilestoneDefinition, nextMilestoneCountdown } from './src/milestones';
+import { StageForecast, computeForecast, formatForecastDate } from './src/forecast';
+import { ManuscriptCalendarApi } from './src/api';
+import { SceneHistory, SceneDetailModal, SceneTransition, describeTransition, formatTimeline } from './src/sceneHistory';
+import { WritingGoals, DEFAULT_GOALS, goalProgress, hasGoals, sumGoals } from './src/goals';
+import { PlanScheduleModal } from './src/planner';
+import { COLOR_MODES, buildColorStylesheet, colorField, sceneColorValue, valueClass, valueColor } from './src/coloring';
+import { FilterPresetModal, activeConditions, collectFieldValues, describeFilter, matchesFilter } from './src/sceneFilter';
 
 // Define constants - Auto-copy test
 const VIEW_TYPE_MANUSCRIPT_CALENDAR = 'manuscript-calendar-view';
+// Drag data type for scenes dragged between day cells
+const SCENE_DRAG_TYPE = 'application/x-manuscript-calendar-scenes';
 
-// Define default settings
-const DEFAULT_SETTINGS: ManuscriptCalendarSettings = {
-    manuscriptFolder: '',
-    debugMode: false
-};
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+                     'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// View mode toggle labels, and how many months the arrows move in each mode
+const VIEW_MODES: Array<{ mode: ViewMode, label: string, title: string }> = [
+    { mode: 'week', label: 'W', title: 'Week' },
+    { mode: 'month', label: 'M', title: 'Month' },
+    { mode: 'quarter', label: 'Q', title: 'Quarter' },
+    { mode: 'year', label: 'Y', title: 'Year heatmap' }
+];
+const MONTHS_PER_PAGE: Record<ViewMode, number> = { week: 0, month: 1, quarter: 3, year: 12 };
 
 // Extend the App interface to include plugins
 declare module 'obsidian' {
@@ -32,30 +56,30 @@ declare module 'obsidian' {
 // Define DataviewAPI interface for type safety
 interface DataviewAPI {
     pages: (query?: string) => Promise<any[]>;
+    page?: (path: string) => Record<string, any> | undefined;
     index?: {
         touch: () => void;
     };
 }
 
-// Define Page interface for Dataview pages
-interface DataviewPage {
-    file: {
-        path: string;
-    };
-    Status?: string | string[];
-    Class?: string | string[];
-    Due?: string | { path: string };
-    Revision?: number;
-    'Publish Stage'?: string;
-    [key: string]: any;
-}
-
 // Add this interface to track scene counts and words
 interface WeekStats {
     sceneCount: number;
     wordCount: number;
 }
 
+// Per-date scene data collected from the scene index for one render
+interface CalendarData {
+    revisionMap: Map<string, Array<{revision: number, publishStage: string}>>;
+    notesByDate: Map<string, SceneRecord[]>;
+    todoFutureDates: Set<string>;
+    workingFutureDates: Set<string>;
+    overdueDates: Set<string>;
+    weekStats: Map<string, WeekStats>;
+    // Completed scenes and words per due date, for the daily goals
+    dayStats: Map<string, WeekStats>;
+}
+
 // Add this function before the ManuscriptCalendarView class
 function createRatioSVG(numerator: number, denominator: number): SVGElement {
     const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
@@ -92,21 +116,64 @@ function createRatioSVG(numerator: number, denominator: number): SVGElement {
     return svg;
 }
 
-// *** NEW Helper Function ***
-function isNoteComplete(note: DataviewPage | undefined | null): boolean {
-    if (!note || !note.Status) return false;
-    const status = note.Status;
-    if (Array.isArray(status)) {
-        return status.some(s => typeof s === 'string' && s.trim().toLowerCase() === 'complete');
-    }
-    return typeof status === 'string' && status.trim().toLowerCase() === 'complete';
+// Short word count for the small calendar cells, e.g. 1.2k
+function formatWordsShort(words: number): string {
+    const sign = words < 0 ? '-' : '';
+    const abs = Math.abs(words);
+    if (abs < 1000) return `${sign}${abs}`;
+    return `${sign}${(abs / 1000).toFixed(abs < 10000 ? 1 : 0)}k`;
+}
+
+// Thin bar under the weekly ratio showing how much of the goal is done
+function createGoalBar(fraction: number): SVGElement {
+    const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+    svg.setAttribute("viewBox", "0 0 20 3");
+    svg.classList.add("goal-bar");
+
+    const track = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+    track.setAttribute("x", "1");
+    track.setAttribute("y", "0");
+    track.setAttribute("width", "18");
+    track.setAttribute("height", "3");
+    track.setAttribute("rx", "1.5");
+    track.classList.add("goal-bar-track");
+    svg.appendChild(track);
+
+    const fill = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+    fill.setAttribute("x", "1");
+    fill.setAttribute("y", "0");
+    fill.setAttribute("width", (18 * fraction).toFixed(2));
+    fill.setAttribute("height", "3");
+    fill.setAttribute("rx", "1.5");
+    fill.classList.add("goal-bar-fill");
+    svg.appendChild(fill);
+
+    return svg;
 }
-// *** End Helper Function ***
 
 export default class ManuscriptCalendarPlugin extends Plugin {
     settings: ManuscriptCalendarSettings;
     currentHighestStage: string;
+    /** @deprecated Never filled in; use `api.getWeekStats()` instead. */
     completedWeekStats: Map<string, WeekStats> = new Map();
+    // Public API for other plugins and scripts
+    api: ManuscriptCalendarApi;
+    sceneIndex: SceneIndex;
+    projects: ProjectSet;
+    weekScheme: WeekScheme;
+    rescheduler: Rescheduler;
+    sceneCreator: SceneCreator;
+    wordCounter: WordCounter;
+    wordHistory: WordHistory;
+    sceneHistory: SceneHistory;
+    icsExporter: IcsExporter;
+    icsOverlay: IcsOverlay;
+    private stageStyleEl: HTMLStyleElement | null = null;
+    // Settings the scene index was last built with, see indexSignature()
+    private indexedSettings = '';
+    // Settings fields save on every keystroke, so rebuilding and redrawing wait for a pause
+    private requestReindex = debounce(() => this.reindex(), 500, true);
+    private requestRedraw = debounce(() => this.redrawCalendars(), 500, true);
 
     // Global debug log function for the plugin
     debugLog(message: string, ...optionalParams: any[]) {
@@ -123,12 +190,36 @@ export default class ManuscriptCalendarPlugin extends Plugin {
             // Log loading message using the new function
             this.debugLog('Loading Manuscript Calendar plugin...');
             
+            // Scene data comes from the metadata cache (Dataview optional)
+            this.sceneIndex = new SceneIndex(this);
+            this.indexedSettings = this.indexSignature();
+            this.rescheduler = new Rescheduler(this);
+            this.sceneCreator = new SceneCreator(this);
+            this.wordCounter = new WordCounter(this);
+            this.wordHistory = new WordHistory(this);
+            await this.wordHistory.load();
+            this.sceneHistory = new SceneHistory(this);
+            await this.sceneHistory.load();
+            this.icsExporter = new IcsExporter(this);
+            this.icsOverlay = new IcsOverlay(this);
+            this.api = new ManuscriptCalendarApi(this);
+            
+            // Stage colors are user-defined, so they live in a generated stylesheet
+            this.stageStyleEl = document.head.createEl('style', { attr: { id: 'manuscript-calendar-stage-styles' } });
+            this.register(() => this.stageStyleEl?.remove());
+            this.updateStageStyles();
+            
             // Register the custom view
             this.registerView(
                 VIEW_TYPE_MANUSCRIPT_CALENDAR,
                 (leaf) => new ManuscriptCalendarView(leaf, this)
             );
             
+            this.registerView(
+                VIEW_TYPE_MANUSCRIPT_AGENDA,
+                (leaf) => new AgendaView(leaf, this)
+            );
+            
             // Add the view to the right sidebar when the plugin is loaded
             this.addRibbonIcon('calendar-range', 'Manuscript Calendar', () => {
                 this.activateView();
@@ -143,23 +234,135 @@ export default class ManuscriptCalendarPlugin extends Plugin {
                 }
             });
             
+            this.addCommand({
+                id: 'open-manuscript-agenda',
+                name: 'Open agenda',
+                callback: () => {
+                    this.activateAgendaView();
+                }
+            });
+            
+            this.addCommand({
+                id: 'open-statistics',
+                name: 'Open statistics',
+                callback: () => {
+                    new StatisticsModal(this.app, this).open();
+                }
+            });
+            
+            this.addCommand({
+                id: 'show-scene-history',
+                name: 'Show scene history',
+                checkCallback: (checking) => {
+                    const file = this.app.workspace.getActiveFile();
+                    const scene = file ? this.sceneIndex.getScene(file.path) : undefined;
+                    if (!scene) return false;
+                    if (!checking) {
+                        new SceneDetailModal(this.app, this, scene).open();
+                    }
+                    return true;
+                }
+            });
+            
+            this.addCommand({
+                id: 'export-ics',
+                name: 'Export scene deadlines to .ics',
+                callback: () => {
+                    this.icsExporter.export();
+                }
+            });
+            
+            this.addCommand({
+                id: 'export-progress-report',
+                name: 'Export progress report',
+                callback: () => {
+                    new ProgressReportModal(this.app, this).open();
+                }
+            });
+            
+            this.addCommand({
+                id: 'plan-schedule',
+                name: 'Plan schedule',
+                callback: () => {
+                    // The overlay has no single project, so the planner starts with the first one
+                    const projectId = this.settings.activeProject === ALL_PROJECTS
+                        ? this.projects.first.id
+                        : this.settings.activeProject;
+                    new PlanScheduleModal(this.app, this, projectId).open();
+                }
+            });
+            
+            this.addCommand({
+                id: 'undo-reschedule',
+                name: 'Undo last reschedule',
+                checkCallback: (checking) => {
+                    if (!this.rescheduler.canUndo()) return false;
+                    if (!checking) {
+                        this.rescheduler.undo();
+                    }
+                    return true;
+                }
+            });
+            
             // Add settings tab
             this.addSettingTab(new ManuscriptCalendarSettingTab(this.app, this));
             
             // Automatically open the calendar view when Obsidian starts
             this.app.workspace.onLayoutReady(() => {
                 this.activateView();
+                // Scenes not yet in the word history get their starting count
+                this.wordHistory.seed(this.getSceneFiles());
+                // Log changes made while Obsidian was closed, and start tracking new scenes
+                this.sceneHistory.record(this.sceneIndex.getScenes());
+                this.icsOverlay.reload();
             });
             
-            // Moved checkFileAndUpdateCalendar outside onload
+            // Keep the scene index in sync with the vault. Events are queued and
+            // flushed together by the index, so bursts of edits cause one update.
+            this.registerEvent(
+                this.app.metadataCache.on('changed', (file, data) => {
+                    if (this.sceneIndex.getScene(file.path)) {
+                        this.wordHistory.track(file, data);
+                    }
+                    this.sceneIndex.queueUpdate(file);
+                })
+            );
+            
+            this.registerEvent(
+                this.app.vault.on('create', (file) => {
+                    if (this.icsOverlay.isSource(file.path)) this.icsOverlay.reload();
+                    this.sceneIndex.queueUpdate(file);
+                })
+            );
+            
+            // Imported calendars aren't markdown, so the metadata cache doesn't report their edits
+            this.registerEvent(
+                this.app.vault.on('modify', (file) => {
+                    if (this.icsOverlay.isSource(file.path)) this.icsOverlay.reload();
+                })
+            );
+            
+            this.registerEvent(
+                this.app.vault.on('delete', (file) => {
+                    if (this.icsOverlay.isSource(file.path)) this.icsOverlay.reload();
+                    this.wordCounter.forget(file.path);
+                    this.wordHistory.remove(file.path);
+                    this.sceneIndex.queueRemoval(file);
+                })
+            );
             
-            // Add listeners using arrow functions to preserve 'this'
             this.registerEvent(
-                this.app.metadataCache.on('changed', (file) => this.checkFileAndUpdateCalendar(file))
+                this.app.vault.on('rename', (file, oldPath) => {
+                    this.wordCounter.forget(oldPath);
+                    this.wordHistory.rename(oldPath, file.path);
+                    this.sceneHistory.rename(oldPath, file.path);
+                    if (this.icsOverlay.isSource(file.path) || this.icsOverlay.isSource(oldPath)) this.icsOverlay.reload();
+                    this.sceneIndex.queueRename(file, oldPath);
+                })
             );
             
             this.registerEvent(
-                this.app.vault.on('modify', (file) => this.checkFileAndUpdateCalendar(file))
+                this.sceneIndex.on('changed', (changedPaths: string[] | null) => this.onSceneIndexChanged(changedPaths))
             );
             
             this.debugLog('Manuscript Calendar plugin loaded successfully');
@@ -168,56 +371,81 @@ export default class ManuscriptCalendarPlugin extends Plugin {
         }
     }
 
-    // Moved checkFileAndUpdateCalendar here as a class method
-    checkFileAndUpdateCalendar(abstractFile: TAbstractFile) {
-        // Use proper type checking instead of casting
-        if (!(abstractFile instanceof TFile)) {
-            return; // Ignore folders
-        }
+    // Update open calendars after the scene index changed. A null list means
+    // the index was rebuilt from scratch, so the calendar is redrawn fully.
+    onSceneIndexChanged(changedPaths: string[] | null) {
+        // Scenes new to the index (created, moved in or reclassified) get their starting word count,
+        // so the words of their first editing session are credited
+        this.wordHistory.seed(changedPaths === null
+            ? this.getSceneFiles()
+            : changedPaths
+                .filter(path => this.sceneIndex.getScene(path))
+                .map(path => this.app.vault.getAbstractFileByPath(path))
+                .filter((file): file is TFile => file instanceof TFile));
         
-        // Now we know it's a TFile, no need to cast
-        if (abstractFile.path) {
-            const manuscriptFolderPath = this.settings.manuscriptFolder;
-            const isInManuscriptFolder = 
-                !manuscriptFolderPath || abstractFile.path.includes(manuscriptFolderPath.replace(/^\/+|\/+$/g, ''));
-            
-            if (isInManuscriptFolder) {
-                this.debugLog(`File in manuscript folder changed: ${abstractFile.path}`);
-                const metadata = this.app.metadataCache.getFileCache(abstractFile);
-                if (metadata && metadata.frontmatter) {
-                    this.debugLog(`Frontmatter detected:`, metadata.frontmatter);
-                    if (metadata.frontmatter["Publish Stage"]) {
-                        this.debugLog(`Publish Stage changed to: ${metadata.frontmatter["Publish Stage"]}`);
-                    }
+        // Log status, stage and revision changes before the views read the history
+        this.sceneHistory.record(changedPaths === null
+            ? this.sceneIndex.getScenes()
+            : changedPaths.map(path => this.sceneIndex.getScene(path)).filter((scene): scene is SceneRecord => !!scene));
+        
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
+            if (leaf.view instanceof ManuscriptCalendarView) {
+                if (changedPaths === null) {
+                    (leaf.view as ManuscriptCalendarView).refreshCalendar();
+                } else {
+                    (leaf.view as ManuscriptCalendarView).refreshChangedCells();
                 }
-                
-                setTimeout(() => {
-                    if (this.app.plugins.plugins.dataview?.api?.index) {
-                        this.app.plugins.plugins.dataview.api.index.touch();
-                        setTimeout(() => {
-                            this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
-                                if (leaf.view instanceof ManuscriptCalendarView) {
-                                    (leaf.view as ManuscriptCalendarView).refreshCalendar();
-                                    this.debugLog("Calendar refreshed due to file change");
-                                }
-                            });
-                        }, 300);
-                    } else {
-                        this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
-                            if (leaf.view instanceof ManuscriptCalendarView) {
-                                (leaf.view as ManuscriptCalendarView).refreshCalendar();
-                            }
-                        });
-                    }
-                }, 100);
+                this.debugLog("Calendar updated due to scene changes", changedPaths);
             }
-        }
+        });
+        this.refreshAgendaViews();
+        this.icsExporter.onIndexChanged();
+        this.api.trigger('index-changed', changedPaths);
+    }
+
+    // Redraw calendars showing words written after the word history recorded an edit
+    onWordHistoryChanged() {
+        if (!this.settings.showWordsWritten) return;
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
+            if (leaf.view instanceof ManuscriptCalendarView) {
+                leaf.view.refreshChangedCells();
+            }
+        });
+    }
+
+    // Redraw calendars after the imported calendars were read again
+    onCalendarOverlayChanged() {
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
+            if (leaf.view instanceof ManuscriptCalendarView) {
+                leaf.view.refreshChangedCells();
+            }
+        });
+    }
+
+    // Files of every indexed scene
+    getSceneFiles(): TFile[] {
+        return this.sceneIndex.getScenes()
+            .map(scene => this.app.vault.getAbstractFileByPath(scene.path))
+            .filter((file): file is TFile => file instanceof TFile);
+    }
+
+    refreshAgendaViews() {
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_AGENDA).forEach(leaf => {
+            if (leaf.view instanceof AgendaView) {
+                leaf.view.render();
+            }
+        });
     }
 
     onunload() {
         this.debugLog('Unloading Manuscript Calendar plugin...');
         
         try {
+            this.requestReindex.cancel();
+            this.requestRedraw.cancel();
+            // Write out word counts still waiting for the debounced save
+            this.wordHistory?.save();
+            this.sceneHistory?.save();
             // All registered events are automatically unregistered by Obsidian's Plugin system
             this.debugLog('Manuscript Calendar plugin unloaded successfully');
         } catch (error) {
@@ -229,14 +457,74 @@ export default class ManuscriptCalendarPlugin extends Plugin {
         const loadedData = await this.loadData();
         // Handle case where the data file might not exist yet
         if (!loadedData) {
-            this.settings = Object.assign({}, DEFAULT_SETTINGS);
+            this.settings = Object.assign({}, DEFAULT_SETTINGS, {
+                fieldMapping: { ...DEFAULT_FIELD_MAPPING },
+                planner: { ...DEFAULT_PLANNER_SETTINGS, writingDays: [...DEFAULT_PLANNER_SETTINGS.writingDays] },
+                icsExport: { ...DEFAULT_SETTINGS.icsExport },
+                icsImports: [],
+                progressReport: { ...DEFAULT_SETTINGS.progressReport },
+                filterFields: [...DEFAULT_SETTINGS.filterFields],
+                filter: [],
+                filterPresets: [],
+                colors: copyColorSettings(DEFAULT_COLOR_SETTINGS),
+                wordCount: { ...DEFAULT_WORD_COUNT_SETTINGS, exclusions: { ...DEFAULT_WORD_COUNT_SETTINGS.exclusions } },
+                projects: DEFAULT_SETTINGS.projects.map((project, index) => normalizeProject(project, index))
+            });
         } else {
+            // Before projects existed the folder and stages were top-level settings
+            const rawProjects: Partial<ProjectProfile>[] = Array.isArray(loadedData.projects) && loadedData.projects.length > 0
+                ? loadedData.projects
+                : [{
+                    ...DEFAULT_SETTINGS.projects[0],
+                    folders: loadedData.manuscriptFolder ? [normalizeFolder(loadedData.manuscriptFolder)] : [],
+                    stages: loadedData.stages
+                }];
+            delete loadedData.manuscriptFolder;
+            delete loadedData.stages;
+
             // Ensure we don't lose empty strings during the merge
             this.settings = {
                 ...DEFAULT_SETTINGS,
-                ...loadedData
+                ...loadedData,
+                // Nested objects need their own merge so new keys get defaults
+                fieldMapping: {
+                    ...DEFAULT_FIELD_MAPPING,
+                    ...(loadedData.fieldMapping ?? {})
+                },
+                planner: {
+                    ...DEFAULT_PLANNER_SETTINGS,
+                    writingDays: [...DEFAULT_PLANNER_SETTINGS.writingDays],
+                    ...(loadedData.planner ?? {})
+                },
+                icsExport: {
+                    ...DEFAULT_SETTINGS.icsExport,
+                    ...(loadedData.icsExport ?? {})
+                },
+                progressReport: {
+                    ...DEFAULT_SETTINGS.progressReport,
+                    ...(loadedData.progressReport ?? {})
+                },
+                filterFields: Array.isArray(loadedData.filterFields) ? loadedData.filterFields : [...DEFAULT_SETTINGS.filterFields],
+                filter: Array.isArray(loadedData.filter) ? loadedData.filter : [],
+                filterPresets: Array.isArray(loadedData.filterPresets) ? loadedData.filterPresets : [],
+                colors: copyColorSettings({
+                    ...DEFAULT_COLOR_SETTINGS,
+                    ...(loadedData.colors ?? {}),
+                    palettes: loadedData.colors?.palettes ?? DEFAULT_COLOR_SETTINGS.palettes
+                }),
+                wordCount: {
+                    ...DEFAULT_WORD_COUNT_SETTINGS,
+                    ...(loadedData.wordCount ?? {}),
+                    exclusions: {
+                        ...DEFAULT_WORD_COUNT_SETTINGS.exclusions,
+                        ...(loadedData.wordCount?.exclusions ?? {})
+                    }
+                },
+                projects: rawProjects.map((project, index) => normalizeProject(project, index))
             };
         }
+        this.buildProjects();
+        this.weekScheme = this.buildWeekScheme();
         // Log the loaded setting
         this.debugLog("[Internal Check] Settings loaded, debugMode:", this.settings.debugMode);
     }
@@ -245,12 +533,164 @@ export default class ManuscriptCalendarPlugin extends Plugin {
         // Make sure we're preserving any empty string values
         await this.saveData(this.settings);
         
-        // After saving settings, update all open calendar views
+        this.buildProjects();
+        this.weekScheme = this.buildWeekScheme();
+        this.updateStageStyles();
+        
+        // Only folders, field mapping, stages and word counting change which notes are scenes or what they hold
+        if (this.indexSignature() !== this.indexedSettings) {
+            this.requestReindex();
+        } else {
+            this.requestRedraw();
+        }
+    }
+
+    // Settings the scene index depends on; any other change only needs a redraw
+    private indexSignature(): string {
+        const { projects, fieldMapping, wordCount } = this.settings;
+        return JSON.stringify({
+            fieldMapping,
+            projects: projects.map(project => [project.id, project.folders, project.stages.map(stage => [stage.name, stage.aliases])]),
+            words: [wordCount.source, wordCount.exclusions]
+        });
+    }
+
+    // Rebuild the scene index with the current settings and redraw from it
+    private reindex() {
+        this.indexedSettings = this.indexSignature();
+        this.sceneIndex.invalidate();
+        // Renamed stages or a new field mapping change every scene's state without any edit
+        this.sceneHistory.rebaseline(this.sceneIndex.getScenes());
+        this.onSceneIndexChanged(null);
+    }
+
+    private redrawCalendars() {
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
+            if (leaf.view instanceof ManuscriptCalendarView) {
+                (leaf.view as ManuscriptCalendarView).refreshCalendar();
+            }
+        });
+        this.refreshAgendaViews();
+    }
+
+    private buildProjects() {
+        this.projects = new ProjectSet(this.settings.projects);
+        // A removed project can no longer be shown
+        const active = this.settings.activeProject;
+        if (active !== ALL_PROJECTS && !this.projects.get(active)) {
+            this.settings.activeProject = this.projects.first.id;
+        }
+    }
+
+    // Stage pipeline of the project shown in the calendar (the first project in the overlay)
+    get stagePipeline(): StagePipeline {
+        return this.projects.pipeline(this.settings.activeProject);
+    }
+
+    isAllProjects(): boolean {
+        return this.settings.activeProject === ALL_PROJECTS && this.projects.projects.length > 1;
+    }
+
+    // Scenes of the project shown in the calendar, or every scene in the overlay, ignoring the filter
+    getProjectScenes(): SceneRecord[] {
+        const scenes = this.sceneIndex.getScenes();
+        if (this.settings.activeProject === ALL_PROJECTS) return scenes;
+        return scenes.filter(scene => scene.project === this.settings.activeProject);
+    }
+
+    // The project scenes that pass the filter bar
+    getVisibleScenes(): SceneRecord[] {
+        const scenes = this.getProjectScenes();
+        if (!this.isFiltered()) return scenes;
+        return scenes.filter(scene => matchesFilter(scene, this.settings.filter));
+    }
+
+    isFiltered(): boolean {
+        return activeConditions(this.settings.filter).length > 0;
+    }
+
+    // Replace the active filter and redraw the views
+    async setFilter(conditions: FilterCondition[]) {
+        this.settings.filter = activeConditions(conditions);
+        await this.saveData(this.settings);
+        this.redrawCalendars();
+    }
+
+    // Frontmatter key the dots are colored by, null when they show the stage
+    getColorField(): string | null {
+        return colorField(this.settings.colors, this.settings.fieldMapping.statusField);
+    }
+
+    async setColorMode(mode: ColorMode) {
+        this.settings.colors.mode = mode;
+        await this.saveData(this.settings);
+        this.refreshColors();
+    }
+
+    // Palette colors changed: rewrite the stylesheet and redraw the calendars
+    refreshColors() {
+        this.updateStageStyles();
+        this.redrawCalendars();
+    }
+
+    // Milestones of the project(s) shown in the calendar, from the settings and from milestone notes
+    getVisibleMilestones(): Milestone[] {
+        const visible = (projectId: string) => this.settings.activeProject === ALL_PROJECTS || projectId === this.settings.activeProject;
+        const fromSettings: Milestone[] = [];
+        this.projects.projects.filter(project => visible(project.id)).forEach(project => {
+            project.milestones.forEach(definition => {
+                const date = LocalDate.fromKey(definition.date.trim());
+                if (date && definition.name.trim()) {
+                    fromSettings.push({ name: definition.name.trim(), date, project: project.id, path: null });
+                }
+            });
+        });
+        return fromSettings
+            .concat(this.sceneIndex.getMilestones().filter(milestone => visible(milestone.project)))
+            .sort((a, b) => a.date.compare(b.date) || a.name.localeCompare(b.name));
+    }
+
+    // Completion forecast of the project shown in the calendar; the overlay mixes pipelines, so it has none
+    getForecast(): StageForecast | null {
+        if (this.isAllProjects()) return null;
+        return computeForecast(this.getVisibleScenes(), this.stagePipeline, this.weekScheme, LocalDate.today(), path => this.sceneHistory.completedOn(path));
+    }
+
+    // Stage names of the project(s) shown in the calendar, in pipeline order
+    visibleStageNames(): string[] {
+        const pipelines = this.settings.activeProject === ALL_PROJECTS
+            ? this.projects.projects.map(project => this.projects.pipeline(project.id))
+            : [this.stagePipeline];
+        const names: string[] = [];
+        pipelines.forEach(pipeline => pipeline.stages.forEach(stage => {
+            if (!names.includes(stage.name)) names.push(stage.name);
+        }));
+        return names;
+    }
+
+    // Switch the calendar to another project. Scenes are indexed for all
+    // projects, so only the views need redrawing.
+    async setActiveProject(projectId: string) {
+        this.settings.activeProject = projectId;
+        await this.saveData(this.settings);
         this.app.workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_CALENDAR).forEach(leaf => {
             if (leaf.view instanceof ManuscriptCalendarView) {
                 (leaf.view as ManuscriptCalendarView).refreshCalendar();
             }
         });
+        this.refreshAgendaViews();
+    }
+
+    private buildWeekScheme(): WeekScheme {
+        const { weekStart, weekNumbering, projectStart } = this.settings;
+        return new WeekScheme(weekStart, weekNumbering, LocalDate.fromKey(projectStart.trim()));
+    }
+
+    // Write the stage colors and project tints into the plugin stylesheet
+    updateStageStyles() {
+        if (this.stageStyleEl) {
+            this.stageStyleEl.textContent = this.projects.buildStylesheet() + '\n' + buildColorStylesheet(this.settings.colors);
+        }
     }
 
     async activateView() {
@@ -270,10 +710,32 @@ export default class ManuscriptCalendarPlugin extends Plugin {
             workspace.revealLeaf(leaf);
         }
     }
+
+    async activateAgendaView() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(VIEW_TYPE_MANUSCRIPT_AGENDA)[0];
+        if (!leaf) {
+            const newLeaf = workspace.getRightLeaf(false);
+            if (newLeaf) {
+                leaf = newLeaf;
+                await leaf.setViewState({
+                    type: VIEW_TYPE_MANUSCRIPT_AGENDA,
+                    active: true,
+                });
+            }
+        }
+        if (leaf) {
+            workspace.revealLeaf(leaf);
+        }
+    }
 }
 
 class ManuscriptCalendarSettingTab extends PluginSettingTab {
     plugin: ManuscriptCalendarPlugin;
+    // Id of the project whose folders and stages are being edited
+    private editingProject = '';
+    // Stage whose goals are being edited, empty for the project goals
+    private editingGoalStage = '';
 
     constructor(app: App, plugin: ManuscriptCalendarPlugin) {
         super(app, plugin);
@@ -285,24 +747,7 @@ class ManuscriptCalendarSettingTab extends PluginSettingTab {
         containerEl.empty();
         containerEl.createEl('h2', { text: 'Manuscript Calendar Settings' });
         
-        // Store the actual current value to compare later
-        const currentValue = this.plugin.settings.manuscriptFolder;
-        
-        new Setting(containerEl)
-            .setName('Manuscript Folder')
-            .setDesc('The folder containing your manuscript files (leave empty to search all files)')
-            .addText(text => {
-                // Set the actual value directly without using || which can replace empty strings
-                text
-                    .setPlaceholder('path/to/manuscript')
-                    .setValue(currentValue ?? '')
-                    .onChange(async (value) => {
-                        // Ensure value is never null/undefined by converting to empty string
-                        const newValue = value ?? '';
-                        this.plugin.settings.manuscriptFolder = newValue;
-                        await this.plugin.saveSettings();
-                    });
-            });
+        this.displayProjects(containerEl);
 
         // Add Debug Mode Toggle
         new Setting(containerEl)
@@ -319,6 +764,17 @@ class ManuscriptCalendarSettingTab extends PluginSettingTab {
                     })
             );
 
+        this.displayWeeks(containerEl);
+        this.displayFieldMapping(containerEl);
+        this.displayWordCounts(containerEl);
+        this.displayNewScenes(containerEl);
+        this.displayIcsExport(containerEl);
+        this.displayIcsImport(containerEl);
+        this.displayFilters(containerEl);
+        this.displayColors(containerEl);
+        this.displayStages(containerEl);
+        this.displayGoals(containerEl);
+
         // -- Load and Display README.md --
         containerEl.createEl('hr'); // Add a separator line
         const readmeContainer = containerEl.createDiv({ cls: 'manuscript-calendar-readme-container' });
@@ -353,112 +809,821 @@ class ManuscriptCalendarSettingTab extends PluginSettingTab {
             console.error('Error loading README.md for settings tab:', error);
         }
     }
-}
-
-class ManuscriptCalendarView extends ItemView {
-    plugin: ManuscriptCalendarPlugin;
-    currentDate: Date;
-    calendarTable: HTMLTableElement;
-    currentHighestStage: string = "ZERO"; // Default value
-    completedWeekStats: Map<string, WeekStats> = new Map();
-    
-    constructor(leaf: WorkspaceLeaf, plugin: ManuscriptCalendarPlugin) {
-        super(leaf);
-        this.plugin = plugin;
-        this.currentDate = new Date();
-        
-        // Add event listener for when Obsidian's layout is ready
-        this.plugin.app.workspace.onLayoutReady(() => {
-            // Re-render the calendar body to ensure scenes are processed
-            if (this.calendarTable) {
-                this.renderCalendarBody();
-            }
-        });
-    }
 
-    // Add back the helper function using the plugin's logger
-    private debugLog(message: string, ...optionalParams: any[]) {
-        this.plugin.debugLog(`[View] ${message}`, ...optionalParams);
+    private editedProject(): ProjectProfile {
+        return this.plugin.projects.get(this.editingProject) ?? this.plugin.projects.first;
     }
 
-    getWeekNumber(date: Date): number {
-        const currentYear = date.getFullYear();
-        const targetDate = new Date(Date.UTC(currentYear, date.getMonth(), date.getDate()));
+    // Settings section listing the projects and the folders of the one being edited
+    private displayProjects(containerEl: HTMLElement) {
+        const projects = this.plugin.settings.projects;
+        const project = this.editedProject();
+        this.editingProject = project.id;
 
-        // Find the Sunday of the current week
-        const dayOfWeek = targetDate.getUTCDay(); // 0 = Sunday, 6 = Saturday
-        const sundayDate = new Date(targetDate);
-        sundayDate.setUTCDate(targetDate.getUTCDate() - dayOfWeek);
+        containerEl.createEl('h3', { text: 'Projects' });
+        containerEl.createEl('p', {
+            text: 'Each project has its own folders and publish stages. A scene belongs to the first project whose folders contain it.',
+            cls: 'setting-item-description'
+        });
 
-        // --- Special Case: Check if this week contains Jan 1st of the *next* year ---
-        const nextYear = currentYear + 1;
-        const firstOfNextYear = new Date(Date.UTC(nextYear, 0, 1));
-        const saturdayDate = new Date(sundayDate);
-        saturdayDate.setUTCDate(sundayDate.getUTCDate() + 6);
+        new Setting(containerEl)
+            .setName('Edit project')
+            .setDesc('The project whose settings are shown below.')
+            .addDropdown(dropdown => {
+                projects.forEach(p => dropdown.addOption(p.id, p.name));
+                dropdown
+                    .setValue(project.id)
+                    .onChange((value) => {
+                        this.editingProject = value;
+                        this.display();
+                    });
+            })
+            .addExtraButton(button =>
+                button
+                    .setIcon('plus')
+                    .setTooltip('Add project')
+                    .onClick(async () => {
+                        const added = createProject(`Project ${projects.length + 1}`, projects);
+                        projects.push(added);
+                        this.editingProject = added.id;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            )
+            .addExtraButton(button =>
+                button
+                    .setIcon('trash')
+                    .setTooltip('Remove project')
+                    .setDisabled(projects.length <= 1)
+                    .onClick(async () => {
+                        // There is always at least one project
+                        if (projects.length <= 1) return;
+                        projects.splice(projects.indexOf(project), 1);
+                        this.editingProject = '';
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
 
-        if (sundayDate < firstOfNextYear && saturdayDate >= firstOfNextYear) {
-            // Use the view's helper
-            this.debugLog(`Week calculation for ${date.toDateString()}: Falls into Week 1 of ${nextYear}`);
-            return 1;
-        }
-        // --- End Special Case ---
+        new Setting(containerEl)
+            .setName('Project name')
+            .addText(text =>
+                text
+                    .setValue(project.name)
+                    .onChange(async (value) => {
+                        project.name = value.trim() || project.name;
+                        await this.plugin.saveSettings();
+                    })
+            );
 
-        // Find Jan 1st of the current year
-        const firstOfCurrentYear = new Date(Date.UTC(currentYear, 0, 1));
+        new Setting(containerEl)
+            .setName('Manuscript Folders')
+            .setDesc('Comma separated folders containing the project\'s scene files (leave empty to search all files)')
+            .addText(text =>
+                text
+                    .setPlaceholder('path/to/manuscript')
+                    .setValue(project.folders.join(', '))
+                    .onChange(async (value) => {
+                        project.folders = parseFolderList(value ?? '');
+                        await this.plugin.saveSettings();
+                    })
+            );
 
-        // Find the Sunday of the week containing Jan 1st
-        const firstDayOfYearDayOfWeek = firstOfCurrentYear.getUTCDay();
-        const firstWeekSunday = new Date(firstOfCurrentYear);
-        firstWeekSunday.setUTCDate(firstOfCurrentYear.getUTCDate() - firstDayOfYearDayOfWeek);
+        new Setting(containerEl)
+            .setName('Project color')
+            .setDesc('Tint for this project\'s dots when the calendar shows all projects.')
+            .addColorPicker(picker =>
+                picker
+                    .setValue(project.cssColor)
+                    .onChange(async (value) => {
+                        project.cssColor = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
 
-        // Calculate the difference in days between the target week's Sunday and the first week's Sunday
-        // Ensure we are comparing dates at the same time (midnight UTC)
-        const diffTime = sundayDate.getTime() - firstWeekSunday.getTime();
-        const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+        this.displayMilestones(containerEl, project);
+    }
 
-        // Calculate the week number
-        const weekNo = Math.floor(diffDays / 7) + 1;
+    // Named deadlines of the edited project, shown as flags with a countdown in the header
+    private displayMilestones(containerEl: HTMLElement, project: ProjectProfile) {
+        const mapping = this.plugin.settings.fieldMapping;
+        new Setting(containerEl)
+            .setName('Milestones')
+            .setDesc(`Big dates such as "Zero draft done" or "Manuscript to editor". Notes in the project with ${mapping.classField}: ${mapping.milestoneClassValue} and a ${mapping.milestoneDateField} are added too.`)
+            .addExtraButton(button =>
+                button
+                    .setIcon('plus')
+                    .setTooltip('Add milestone')
+                    .onClick(async () => {
+                        const milestone: MilestoneDefinition = { name: '', date: LocalDate.today().key };
+                        project.milestones.push(milestone);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
 
-        // Use the view's helper
-        this.debugLog(`Apple-Style Week calculation for ${date.toDateString()}:`, {
-            inputDate: date.toDateString(),
-            weekSunday: sundayDate.toISOString(),
-            firstWeekSunday: firstWeekSunday.toISOString(),
-            diffDays,
-            calculatedWeekNumber: weekNo
+        project.milestones.forEach((milestone, index) => {
+            new Setting(containerEl)
+                .setClass('milestone-setting')
+                .addText(text =>
+                    text
+                        .setPlaceholder('Milestone name')
+                        .setValue(milestone.name)
+                        .onChange(async (value) => {
+                            milestone.name = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addText(text =>
+                    text
+                        .setPlaceholder('YYYY-MM-DD')
+                        .setValue(milestone.date)
+                        .onChange(async (value) => {
+                            milestone.date = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addExtraButton(button =>
+                    button
+                        .setIcon('trash')
+                        .setTooltip('Remove milestone')
+                        .onClick(async () => {
+                            project.milestones.splice(index, 1);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                );
         });
-
-        return weekNo;
     }
 
-    // Helper method to get the start of a week for a given date
-    getWeekStart(date: Date): Date {
-        const d = new Date(date);
-        d.setHours(0, 0, 0, 0);
-        const day = d.getDay();
-        d.setDate(d.getDate() - day); // Go back to Sunday
-        return d;
-    }
+    // Weekly and daily quotas of the edited project, optionally replaced per stage
+    private displayGoals(containerEl: HTMLElement) {
+        const project = this.editedProject();
+        const stage = project.stages.find(s => s.name === this.editingGoalStage);
+        if (!stage) this.editingGoalStage = '';
 
-    // Helper method to check if two dates are in the same week
-    isSameWeek(date1: Date, date2: Date): boolean {
-        const week1Start = this.getWeekStart(date1);
-        const week2Start = this.getWeekStart(date2);
-        return week1Start.getTime() === week2Start.getTime();
-    }
+        containerEl.createEl('h3', { text: `Writing Goals: ${project.name}` });
+        containerEl.createEl('p', {
+            text: 'Completed scenes and words are measured against these goals in the week column, on the days and in the tooltips. Goals set on a stage replace the project goals while that stage is the project\'s highest. Use 0 for no goal.',
+            cls: 'setting-item-description'
+        });
 
-    getViewType(): string {
-        return VIEW_TYPE_MANUSCRIPT_CALENDAR;
-    }
+        new Setting(containerEl)
+            .setName('Goals for')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Whole project');
+                project.stages.forEach(s => dropdown.addOption(s.name, `${s.name} stage${hasGoals(s.goals) ? ' (set)' : ''}`));
+                dropdown
+                    .setValue(this.editingGoalStage)
+                    .onChange((value) => {
+                        this.editingGoalStage = value;
+                        this.display();
+                    });
+            });
 
-    getDisplayText(): string {
-        return "Manuscript Calendar";
+        const goals: WritingGoals = stage ? (stage.goals ?? { ...DEFAULT_GOALS }) : project.goals;
+        const fields: Array<{ key: keyof WritingGoals, name: string }> = [
+            { key: 'weeklyScenes', name: 'Scenes per week' },
+            { key: 'weeklyWords', name: 'Words per week' },
+            { key: 'dailyScenes', name: 'Scenes per day' },
+            { key: 'dailyWords', name: 'Words per day' }
+        ];
+        fields.forEach(field => {
+            new Setting(containerEl)
+                .setName(field.name)
+                .addText(text =>
+                    text
+                        .setPlaceholder('0')
+                        .setValue(goals[field.key] > 0 ? String(goals[field.key]) : '')
+                        .onChange(async (value) => {
+                            const parsed = parseInt(value.replace(/,/g, ''), 10);
+                            goals[field.key] = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                            // Stage goals are only stored once one of them is set
+                            if (stage) {
+                                stage.goals = hasGoals(goals) ? goals : undefined;
+                            }
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
     }
 
-    getIcon(): string {
-        return "calendar-range";
-    }
+    // Where word counts come from, and what a body count leaves out
+    private displayWordCounts(containerEl: HTMLElement) {
+        const wordCount = this.plugin.settings.wordCount;
+
+        containerEl.createEl('h3', { text: 'Word Counts' });
+        containerEl.createEl('p', {
+            text: 'Scene word counts feed the weekly ratio, the heatmap and the statistics. They can be read from the Word Count Fields or counted from the note text. The words written history always counts the note text, skipping the parts chosen below.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Word count source')
+            .setDesc('Counts from the note text are cached until the note changes.')
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption('field', 'Word Count Fields')
+                    .addOption('body', 'Count the note text')
+                    .setValue(wordCount.source)
+                    .onChange(async (value) => {
+                        wordCount.source = value as WordCountSource;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+
+        const exclusions: Array<{ key: keyof WordCountExclusions, name: string }> = [
+            { key: 'frontmatter', name: 'Skip frontmatter' },
+            { key: 'comments', name: 'Skip HTML comments' },
+            { key: 'obsidianComments', name: 'Skip %% comment %% blocks' },
+            { key: 'callouts', name: 'Skip callouts' },
+            { key: 'headings', name: 'Skip headings' },
+            { key: 'code', name: 'Skip code blocks and inline code' }
+        ];
+        exclusions.forEach(exclusion => {
+            new Setting(containerEl)
+                .setName(exclusion.name)
+                .addToggle(toggle =>
+                    toggle
+                        .setValue(wordCount.exclusions[exclusion.key])
+                        .onChange(async (value) => {
+                            wordCount.exclusions[exclusion.key] = value;
+                            // Cached counts used the old exclusions
+                            this.plugin.wordCounter.clear();
+                            await this.plugin.saveSettings();
+                            await this.plugin.wordHistory.rebaseline(this.plugin.getSceneFiles());
+                        })
+                );
+        });
+
+        if (wordCount.source !== 'body') return;
+
+        new Setting(containerEl)
+            .setName('Write counts to the Words field')
+            .setDesc('Store each counted total in the first Word Count Field of the scene, so other tools see it too.')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(wordCount.writeBack)
+                    .onChange(async (value) => {
+                        wordCount.writeBack = value;
+                        this.plugin.wordCounter.clear();
+                        await this.plugin.saveSettings();
+                    })
+            );
+    }
+
+    // Path and automatic updates of the .ics export
+    private displayIcsExport(containerEl: HTMLElement) {
+        const icsExport = this.plugin.settings.icsExport;
+
+        containerEl.createEl('h3', { text: 'Calendar Export' });
+        containerEl.createEl('p', {
+            text: 'Write every scene with a Due date as an all-day event to an .ics file, which calendar apps can subscribe to through a synced folder.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Export file')
+            .setDesc('Vault path of the .ics file.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Manuscript Calendar.ics')
+                    .setValue(icsExport.path)
+                    .onChange(async (value) => {
+                        icsExport.path = value.trim();
+                        await this.plugin.saveSettings();
+                        // Write the file at its new path once typing has paused
+                        this.plugin.icsExporter.onIndexChanged();
+                    })
+            )
+            .addButton(button =>
+                button
+                    .setButtonText('Export now')
+                    .onClick(() => this.plugin.icsExporter.export())
+            );
+
+        new Setting(containerEl)
+            .setName('Export automatically')
+            .setDesc('Rewrite the file a few seconds after scenes change.')
+            .addToggle(toggle =>
+                toggle
+                    .setValue(icsExport.autoExport)
+                    .onChange(async (value) => {
+                        icsExport.autoExport = value;
+                        await this.plugin.saveSettings();
+                        if (value) {
+                            await this.plugin.icsExporter.export(false);
+                        }
+                    })
+            );
+    }
+
+    // .ics files drawn as read-only events on the calendar
+    private displayIcsImport(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Calendar Import' });
+        containerEl.createEl('p', {
+            text: 'Show the events of .ics files in the vault, such as editor deadlines or conferences, as flags on their days. Events are read-only and never count as scenes.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Calendar files')
+            .setDesc('Comma separated vault paths of .ics files. They are read again whenever they change.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Calendars/Publisher.ics')
+                    .setValue(this.plugin.settings.icsImports.join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.icsImports = value.split(',').map(path => path.trim()).filter(path => path.length > 0);
+                        // The paths don't affect the scene index, and the files are read once typing has paused
+                        await this.plugin.saveData(this.plugin.settings);
+                        this.plugin.icsOverlay.requestReload();
+                    })
+            )
+            .addButton(button =>
+                button
+                    .setButtonText('Reload')
+                    .onClick(() => this.plugin.icsOverlay.reload())
+            );
+    }
+
+    // Fields offered in the filter bar, and the saved presets
+    private displayFilters(containerEl: HTMLElement) {
+        const settings = this.plugin.settings;
+
+        containerEl.createEl('h3', { text: 'Filters' });
+        containerEl.createEl('p', {
+            text: 'The filter button in the calendar header shows a bar for narrowing the calendar to scenes with chosen frontmatter values. Dots, tooltips, weekly ratios, stage counts, statistics and the agenda all follow the filter.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Filter fields')
+            .setDesc('Comma separated frontmatter keys offered in the filter bar. Use tags for the note tags.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Subplot, Character, POV, Act, tags')
+                    .setValue(settings.filterFields.join(', '))
+                    .onChange(async (value) => {
+                        settings.filterFields = parseKeyList(value);
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        settings.filterPresets.forEach((preset, index) => {
+            new Setting(containerEl)
+                .setName(preset.name)
+                .setDesc(describeFilter(preset.conditions) || 'No conditions')
+                .addExtraButton(button =>
+                    button
+                        .setIcon('trash')
+                        .setTooltip('Remove preset')
+                        .onClick(async () => {
+                            settings.filterPresets.splice(index, 1);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                );
+        });
+    }
+
+    // What the dots are colored by, and the palette of the field in use
+    private displayColors(containerEl: HTMLElement) {
+        const colors = this.plugin.settings.colors;
+        containerEl.createEl('h3', { text: 'Dot Colors' });
+        containerEl.createEl('p', {
+            text: 'Calendar dots show the publish stage, or one color per value of a frontmatter field with a segment per value found on the day. The legend under the grid switches between them. Values without a color here get an automatic one.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Color dots by')
+            .addDropdown(dropdown => {
+                COLOR_MODES.forEach(({ mode, label }) => dropdown.addOption(mode, label));
+                dropdown
+                    .setValue(colors.mode)
+                    .onChange(async (value) => {
+                        colors.mode = value as ColorMode;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        const fieldSettings: Array<{ key: 'subplotField' | 'povField' | 'field', name: string, placeholder: string }> = [
+            { key: 'subplotField', name: 'Subplot field', placeholder: 'Subplot' },
+            { key: 'povField', name: 'POV field', placeholder: 'POV' },
+            { key: 'field', name: 'Custom field', placeholder: 'Act' }
+        ];
+        fieldSettings.forEach(({ key, name, placeholder }) => {
+            new Setting(containerEl)
+                .setName(name)
+                .addText(text =>
+                    text
+                        .setPlaceholder(placeholder)
+                        .setValue(colors[key])
+                        .onChange(async (value) => {
+                            colors[key] = value.trim() || (key === 'field' ? '' : placeholder);
+                            await this.plugin.saveSettings();
+                        })
+                );
+        });
+
+        // Palette of the field in use: every value in the project's scenes, and any with a saved color
+        const field = this.plugin.getColorField();
+        if (!field) return;
+        const palette = colors.palettes[field.toLowerCase()] ?? {};
+        const values = collectFieldValues(this.plugin.getProjectScenes(), field);
+        Object.keys(palette).forEach(key => {
+            if (!values.some(value => value.toLowerCase() === key)) values.push(key);
+        });
+        if (values.length === 0) {
+            containerEl.createEl('p', { text: `No scene has a ${field} value yet.`, cls: 'setting-item-description' });
+            return;
+        }
+        values.forEach(value => {
+            const key = value.toLowerCase();
+            new Setting(containerEl)
+                .setName(value)
+                .setDesc(palette[key] ? '' : 'Automatic color')
+                .addColorPicker(picker =>
+                    picker
+                        .setValue(valueColor(colors, field, value))
+                        .onChange(async (color) => {
+                            colors.palettes[field.toLowerCase()] = { ...(colors.palettes[field.toLowerCase()] ?? {}), [key]: color };
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addExtraButton(button =>
+                    button
+                        .setIcon('rotate-ccw')
+                        .setTooltip('Use the automatic color')
+                        .onClick(async () => {
+                            const current = colors.palettes[field.toLowerCase()];
+                            if (!current || !current[key]) return;
+                            delete current[key];
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                );
+        });
+    }
+
+    // Settings section for scenes created from empty calendar days
+    private displayNewScenes(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'New Scenes' });
+        containerEl.createEl('p', {
+            text: 'Click an empty day (or right-click any day) to create a scene due that day in the project\'s first folder. Class, Status: Todo, Due and the first Publish Stage are filled in.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Scene template')
+            .setDesc('Path of a note to copy into new scenes. {{date}} and {{title}} are replaced. Leave empty for a blank note.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Templates/Scene.md')
+                    .setValue(this.plugin.settings.sceneTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.sceneTemplate = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName('Scene name pattern')
+            .setDesc('{{number}} is one more than the highest existing scene number ({{number:3}} pads to 3 digits). {{date}} and {{project}} are also available.')
+            .addText(text =>
+                text
+                    .setPlaceholder('Scene {{number}}')
+                    .setValue(this.plugin.settings.sceneNamePattern)
+                    .onChange(async (value) => {
+                        this.plugin.settings.sceneNamePattern = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+    }
+
+    // Settings section for the first weekday and how weeks are numbered
+    private displayWeeks(containerEl: HTMLElement) {
+        const settings = this.plugin.settings;
+        containerEl.createEl('h3', { text: 'Weeks' });
+
+        new Setting(containerEl)
+            .setName('First day of week')
+            .setDesc('Weekday each calendar row starts on. Weekly ratios are grouped by these weeks.')
+            .addDropdown(dropdown => {
+                WEEKDAY_NAMES.forEach((name, index) => dropdown.addOption(String(index), name));
+                dropdown
+                    .setValue(String(settings.weekStart))
+                    .onChange(async (value) => {
+                        settings.weekStart = parseInt(value, 10);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Week numbering')
+            .setDesc('How the W column numbers weeks.')
+            .addDropdown(dropdown => dropdown
+                .addOption('us', 'US (week 1 contains January 1st)')
+                .addOption('iso', 'ISO-8601')
+                .addOption('project', 'Weeks since project start')
+                .setValue(settings.weekNumbering)
+                .onChange(async (value) => {
+                    settings.weekNumbering = value as WeekNumbering;
+                    await this.plugin.saveSettings();
+                    // Show or hide the project start setting
+                    this.display();
+                }));
+
+        if (settings.weekNumbering === 'project') {
+            new Setting(containerEl)
+                .setName('Project start')
+                .setDesc('Date of week 1, as YYYY-MM-DD. Weeks before it have no number.')
+                .addText(text => text
+                    .setPlaceholder('YYYY-MM-DD')
+                    .setValue(settings.projectStart)
+                    .onChange(async (value) => {
+                        settings.projectStart = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+    }
+
+    // Settings section mapping each scene field to the key used in the vault
+    private displayFieldMapping(containerEl: HTMLElement) {
+        const mapping = this.plugin.settings.fieldMapping;
+
+        containerEl.createEl('h3', { text: 'Scene Fields' });
+        containerEl.createEl('p', {
+            text: 'Map each scene field to the frontmatter key your vault uses. Inline fields work too when Dataview is installed. Keys are matched case-insensitively.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Identify Scenes By')
+            .setDesc('Recognise scene notes by a class field value or by a tag.')
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption('class', 'Class field')
+                    .addOption('tag', 'Tag')
+                    .setValue(mapping.sceneMatch)
+                    .onChange(async (value) => {
+                        mapping.sceneMatch = value as SceneMatchMode;
+                        await this.plugin.saveSettings();
+                        // Redraw so only the relevant options are shown
+                        this.display();
+                    })
+            );
+
+        if (mapping.sceneMatch === 'tag') {
+            this.addMappingText(containerEl, 'Scene Tag', 'Tag that marks a note as a scene (without #). Nested tags such as scene/act1 also match.', 'sceneTag');
+        } else {
+            this.addMappingText(containerEl, 'Class Field', 'Frontmatter key holding the note class.', 'classField');
+            this.addMappingText(containerEl, 'Class Value', 'Value of the class field that marks a note as a scene.', 'classValue');
+        }
+
+        this.addMappingText(containerEl, 'Status Field', 'Key holding Todo, Working or Complete.', 'statusField');
+        this.addMappingText(containerEl, 'Due Field', 'Key holding the date the scene is placed on.', 'dueField');
+        this.addMappingText(containerEl, 'Publish Stage Field', 'Key holding the publish stage.', 'publishStageField');
+        this.addMappingText(containerEl, 'Revision Field', 'Key holding the revision number.', 'revisionField');
+        this.addMappingText(containerEl, 'Word Count Fields', 'Comma separated keys for the word count. The first one with a value is used.', 'wordsField');
+        this.addMappingText(containerEl, 'Completed Field', 'Optional key holding the date a scene was finished, used for the days overdue statistic.', 'completedField');
+        this.addMappingText(containerEl, 'Milestone Class Value', `Value of the ${mapping.classField} field that marks a note as a milestone.`, 'milestoneClassValue');
+        this.addMappingText(containerEl, 'Milestone Date Field', 'Key holding the day of a milestone note.', 'milestoneDateField');
+    }
+
+    // Settings section for the ordered publish stage pipeline
+    private displayStages(containerEl: HTMLElement) {
+        const project = this.editedProject();
+        const stages = project.stages;
+
+        containerEl.createEl('h3', { text: `Publish Stages: ${project.name}` });
+        containerEl.createEl('p', {
+            text: 'Stages in order from first to last. The first stage is treated as the zero draft. Aliases are comma separated alternative names, and icons use Lucide icon names.',
+            cls: 'setting-item-description'
+        });
+
+        stages.forEach((stage, index) => {
+            const setting = new Setting(containerEl)
+                .setName(`${index + 1}. ${stage.name}`)
+                .setClass('manuscript-calendar-stage-setting')
+                .addText(text =>
+                    text
+                        .setPlaceholder('Name')
+                        .setValue(stage.name)
+                        .onChange(async (value) => {
+                            stage.name = value.trim() || stage.name;
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addText(text =>
+                    text
+                        .setPlaceholder('Aliases')
+                        .setValue(stage.aliases.join(', '))
+                        .onChange(async (value) => {
+                            stage.aliases = value.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0);
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addText(text =>
+                    text
+                        .setPlaceholder('Icon')
+                        .setValue(stage.icon)
+                        .onChange(async (value) => {
+                            stage.icon = value.trim();
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addColorPicker(picker =>
+                    picker
+                        .setValue(stage.cssColor)
+                        .onChange(async (value) => {
+                            stage.cssColor = value;
+                            await this.plugin.saveSettings();
+                        })
+                )
+                .addExtraButton(button =>
+                    button
+                        .setIcon('arrow-up')
+                        .setTooltip('Move up')
+                        .setDisabled(index === 0)
+                        .onClick(async () => {
+                            if (index === 0) return;
+                            [stages[index - 1], stages[index]] = [stages[index], stages[index - 1]];
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                )
+                .addExtraButton(button =>
+                    button
+                        .setIcon('arrow-down')
+                        .setTooltip('Move down')
+                        .setDisabled(index === stages.length - 1)
+                        .onClick(async () => {
+                            if (index === stages.length - 1) return;
+                            [stages[index], stages[index + 1]] = [stages[index + 1], stages[index]];
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                )
+                .addExtraButton(button =>
+                    button
+                        .setIcon('trash')
+                        .setTooltip('Remove stage')
+                        .setDisabled(stages.length <= 1)
+                        .onClick(async () => {
+                            // The pipeline always needs at least one stage
+                            if (stages.length <= 1) return;
+                            stages.splice(index, 1);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })
+                );
+
+            // Preview the current icon in the stage color
+            const preview = setting.nameEl.createSpan({ cls: `stage-icon ${this.plugin.projects.pipeline(project.id).stageClass(stage.name)}` });
+            setIcon(preview, stage.icon || 'circle');
+        });
+
+        new Setting(containerEl)
+            .addButton(button =>
+                button
+                    .setButtonText('Add Stage')
+                    .onClick(async () => {
+                        stages.push({ name: `Stage ${stages.length + 1}`, aliases: [], cssColor: '#8e8e8e', icon: 'circle' });
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            )
+            .addButton(button =>
+                button
+                    .setButtonText('Reset to Defaults')
+                    .onClick(async () => {
+                        project.stages = cloneStages(DEFAULT_STAGES);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+            );
+    }
+
+    private addMappingText(containerEl: HTMLElement, name: string, desc: string, key: Exclude<keyof SceneFieldMapping, 'sceneMatch'>) {
+        const mapping = this.plugin.settings.fieldMapping;
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text =>
+                text
+                    .setPlaceholder(DEFAULT_FIELD_MAPPING[key])
+                    .setValue(mapping[key] ?? '')
+                    .onChange(async (value) => {
+                        // Fall back to the default key rather than matching nothing
+                        mapping[key] = value.trim() || DEFAULT_FIELD_MAPPING[key];
+                        await this.plugin.saveSettings();
+                    })
+            );
+    }
+}
+
+class ManuscriptCalendarView extends ItemView {
+    plugin: ManuscriptCalendarPlugin;
+    currentDate: Date;
+    // Holds the grid, strip, week list or heatmap of the current view mode
+    calendarBody: HTMLElement;
+    currentHighestStage = ""; // Set from the stage pipeline on render
+    completedWeekStats: Map<string, WeekStats> = new Map();
+    
+    // State kept between renders so index updates only touch changed cells
+    private calendarData: CalendarData | null = null;
+    // Per project data for the all projects overlay
+    private projectData: Map<string, CalendarData> = new Map();
+    // Goals in effect for the visible project(s), null when none are set
+    private goals: WritingGoals | null = null;
+    // Net words written per day from the word history, filled in words written mode
+    private writtenByDay: Map<string, number> = new Map();
+    // Status, stage and revision changes per day from the scene history
+    private transitionsByDay: Map<string, Array<{ path: string, transition: SceneTransition }>> = new Map();
+    private milestonesByDay: Map<string, Milestone[]> = new Map();
+    private forecast: StageForecast | null = null;
+    private headerStageEl: HTMLElement | null = null;
+    private stageSignature = '';
+    private daySignatures: Map<string, string> = new Map();
+    private weekSignatures: Map<string, string> = new Map();
+    private cellDates: Map<string, LocalDate> = new Map();
+    // Scenes being dragged to another day, set while a drag is in progress
+    private draggedScenes: { from: string, scenes: SceneRecord[] } | null = null;
+    
+    constructor(leaf: WorkspaceLeaf, plugin: ManuscriptCalendarPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+        this.currentDate = new Date();
+        
+        // Add event listener for when Obsidian's layout is ready
+        this.plugin.app.workspace.onLayoutReady(() => {
+            // Re-render the calendar body to ensure scenes are processed
+            if (this.calendarBody) {
+                this.renderCalendarBody();
+            }
+        });
+    }
+
+    // Add back the helper function using the plugin's logger
+    private debugLog(message: string, ...optionalParams: any[]) {
+        this.plugin.debugLog(`[View] ${message}`, ...optionalParams);
+    }
+
+    // Week number shown in the W column, null when the week has no number (before the project start)
+    getWeekNumber(date: LocalDate): number | null {
+        const weekNo = this.plugin.weekScheme.weekNumber(date);
+        this.debugLog(`Week calculation for ${date.key} (${this.plugin.weekScheme.numbering}):`, weekNo);
+        return weekNo;
+    }
+
+    // Helper method to get the start of a week for a given date
+    getWeekStart(date: LocalDate): LocalDate {
+        return this.plugin.weekScheme.startOf(date);
+    }
+
+    // Helper method to check if two dates are in the same week
+    isSameWeek(date1: LocalDate, date2: LocalDate): boolean {
+        return this.plugin.weekScheme.isSameWeek(date1, date2);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_MANUSCRIPT_CALENDAR;
+    }
+
+    getDisplayText(): string {
+        return "Manuscript Calendar";
+    }
+
+    getIcon(): string {
+        return "calendar-range";
+    }
     
+    // Move the view back or forward one page: a week, month, quarter or year
+    async navigate(delta: number): Promise<void> {
+        const mode = this.plugin.settings.viewMode;
+        if (mode === 'week') {
+            this.currentDate = LocalDate.fromDate(this.currentDate).addDays(7 * delta).toDate();
+            await this.refreshCalendar();
+            return;
+        }
+        await this.changeMonth(delta * MONTHS_PER_PAGE[mode]);
+    }
+
+    async setViewMode(mode: ViewMode): Promise<void> {
+        // Keep today in view when it is on the current page
+        const today = new Date();
+        if (today.getFullYear() === this.currentDate.getFullYear() && today.getMonth() === this.currentDate.getMonth()) {
+            this.currentDate = today;
+        }
+        this.plugin.settings.viewMode = mode;
+        await this.plugin.saveData(this.plugin.settings);
+        await this.refreshCalendar();
+    }
+
     // Method to change month that handles date properly
     async changeMonth(delta: number): Promise<void> {
         // Create a clean new Date object with the first day of the new month
@@ -502,6 +1667,9 @@ class ManuscriptCalendarView extends ItemView {
         // Add a visible header why is this needed?
         //container.createEl('h3', { text: 'Manuscript Calendar' });
         
+        this.renderToolbar(container);
+        this.renderFilterBar(container);
+        
         // Create calendar header
         const calendarHeader = container.createDiv({ cls: 'calendar-header' });
         
@@ -540,1294 +1708,1925 @@ class ManuscriptCalendarView extends ItemView {
         // Prevent default clickable-icon padding if added
         nextButton.classList.remove('clickable-icon');
         
-        // Update month display
-        const updateMonthDisplay = async () => {
-            const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 
-                           'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-            
-            // Clear the stage column before re-rendering
-            headerStage.empty();
-            
-            // Create month/year container directly in calendarHeader (column 1)
-            const headerContainer = document.createElement('div');
-            headerContainer.className = 'month-year-stage-container';
-            calendarHeader.insertBefore(headerContainer, headerStage);
-            
-            // Create month text
-            const monthText = document.createElement('span');
-            monthText.textContent = months[this.currentDate.getMonth()];
-            monthText.className = 'month-text';
-            headerContainer.appendChild(monthText);
-            
-            // Add space between month and year
-            headerContainer.appendChild(document.createTextNode(' '));
-            
-            // Create year text - only show last 2 digits
-            const yearText = document.createElement('span');
-            const fullYear = this.currentDate.getFullYear().toString();
-            yearText.textContent = "'" + fullYear.substring(fullYear.length - 2); // Add apostrophe
-            yearText.className = 'year-text';
-            headerContainer.appendChild(yearText);
-            
-            // Default to ZERO stage
-            let highestStage = "ZERO";
-            
-            // **** Calculate Stage Counts ****
-            const stageCounts = new Map<string, number>([
-                ["ZERO", 0],
-                ["AUTHOR", 0],
-                ["HOUSE", 0],
-                ["PRESS", 0]
-            ]);
-            
-            try {
-                if (this.app.plugins.plugins.dataview) {
-                    const dataviewApi = this.app.plugins.plugins.dataview.api;
-                    let pages: any[] = [];
-                    
-                    // Get folder path from settings, same logic as in renderCalendarBody
-                    const rawFolderPath = this.plugin.settings.manuscriptFolder;
-                    let folderPath = (rawFolderPath === undefined || rawFolderPath === null) ? "" : rawFolderPath;
-                    
-                    // Get all pages with dataview
-                    try {
-                        if (!folderPath || folderPath.trim() === "") {
-                            pages = await dataviewApi.pages();
-                        } else {
-                            folderPath = folderPath.trim().replace(/^\/+|\/+$/g, '');
-                            pages = await dataviewApi.pages(`folder:"${folderPath}"`);
-                        }
-                    } catch (e) {
-                        console.error("Error getting pages:", e);
-                        pages = await dataviewApi.pages(); // Fallback to all pages
-                    }
-                    
-                    // Define stages in order of advancement (lowest to highest)
-                    const stages = ["ZERO", "AUTHOR", "HOUSE", "PRESS"];
-                    
-                    // Map for stage ranking
-                    const stageRank = new Map<string, number>();
-                    stages.forEach((stage, index) => {
-                        stageRank.set(stage, index);
-                    });
-                    
-                    // Current highest stage index
-                    let highestStageIndex = 0;
-                    
-                    // Check each page for Publish Stage and count completed scenes by stage
-                    pages.forEach(page => {
-                        // Handle Publish Stage determination
-                        if (page["Publish Stage"]) {
-                            let pageStage = String(page["Publish Stage"]).toUpperCase();
-                            
-                            // Handle legacy naming
-                            if (pageStage === "FIRST") pageStage = "AUTHOR";
-                            if (pageStage === "EDITING") pageStage = "HOUSE";
-                            
-                            // Check if this stage is higher than current highest
-                            const stageIndex = stageRank.get(pageStage) ?? 0;
-                            if (stageIndex > highestStageIndex) {
-                                highestStageIndex = stageIndex;
-                                highestStage = stages[highestStageIndex];
-                            }
-                            
-                            // Count completed scenes by stage
-                            if (isNoteComplete(page)) {
-                                if (stageCounts.has(pageStage)) {
-                                    stageCounts.set(pageStage, stageCounts.get(pageStage)! + 1);
-                                }
-                            }
-                        }
-                    });
-                    
-                    // Store the highest stage for use in renderCalendarBody
-                    this.currentHighestStage = highestStage;
-                    this.debugLog("Current highest stage:", highestStage);
-                    this.debugLog("Completed scene counts:", Object.fromEntries(stageCounts));
-                }
-            } catch (e) {
-                console.error("Error determining highest publish stage:", e);
-                this.currentHighestStage = "ZERO"; // Default fallback
-            }
-            
-            // Add the stage icon based on current stage
-            const iconMap = {
-                "ZERO": "circle-slash",
-                "AUTHOR": "smile",
-                "HOUSE": "landmark",
-                "PRESS": "printer"
-            };
-            
-            // Create the table-like structure for the stage info
-            const stageTable = document.createElement('div');
-            stageTable.className = 'stage-table';
-            
-            // Column 1: Icon
-            const iconColumn = document.createElement('div');
-            iconColumn.className = 'stage-icon-column';
-            stageTable.appendChild(iconColumn);
-            
-            // Create the icon container and add to icon column
-            const stageIconContainer = document.createElement('span');
-            stageIconContainer.className = 'stage-icon';
-            stageIconContainer.classList.add(`stage-${this.currentHighestStage.toLowerCase()}`);
-            setIcon(stageIconContainer, iconMap[this.currentHighestStage as keyof typeof iconMap]);
-            iconColumn.appendChild(stageIconContainer);
-            
-            // Column 2: Stage text and count
-            const textColumn = document.createElement('div');
-            textColumn.className = 'stage-text-column';
-            stageTable.appendChild(textColumn);
-            
-            // Row 1: Stage indicator
-            const stageIndicator = document.createElement('span');
-            stageIndicator.className = 'stage-indicator';
-            stageIndicator.textContent = this.currentHighestStage;
-            stageIndicator.classList.add(`stage-${this.currentHighestStage.toLowerCase()}`);
-            textColumn.appendChild(stageIndicator);
-            
-            // Row 2: Count (only if > 0)
-            const currentStageCount = stageCounts.get(this.currentHighestStage) || 0;
-            if (currentStageCount > 0) {
-                const stageCountElement = document.createElement('span');
-                stageCountElement.className = 'stage-count';
-                stageCountElement.classList.add(`stage-${this.currentHighestStage.toLowerCase()}`);
-                stageCountElement.textContent = currentStageCount.toString();
-                textColumn.appendChild(stageCountElement);
-            }
-            
-            // Add the stage table to the middle header block (column 2)
-            headerStage.appendChild(stageTable);
-        };
+        // Create month/year container directly in calendarHeader (column 1)
+        const headerContainer = document.createElement('div');
+        headerContainer.className = 'month-year-stage-container';
+        calendarHeader.insertBefore(headerContainer, headerStage);
+        
+        // Create month text (the week, quarter or "Year" in the other modes)
+        const monthText = document.createElement('span');
+        monthText.textContent = this.headerTitle();
+        monthText.className = 'month-text';
+        headerContainer.appendChild(monthText);
+        
+        // Add space between month and year
+        headerContainer.appendChild(document.createTextNode(' '));
+        
+        // Create year text - only show last 2 digits
+        const yearText = document.createElement('span');
+        const fullYear = this.pageYear().toString();
+        yearText.textContent = "'" + fullYear.substring(fullYear.length - 2); // Add apostrophe
+        yearText.className = 'year-text';
+        headerContainer.appendChild(yearText);
         
-        await updateMonthDisplay();
+        // The stage column is re-rendered on its own when scene data changes
+        this.headerStageEl = headerStage;
+        this.renderHeaderStage();
         
         // Add event listeners for month navigation
         prevButton.addEventListener('click', async () => {
-            this.changeMonth(-1);
+            this.navigate(-1);
         });
         
         nextButton.addEventListener('click', async () => {
-            this.changeMonth(1);
+            this.navigate(1);
         });
         
         todayButton.addEventListener('click', async () => {
             this.currentDate = new Date();
-            await updateMonthDisplay();
             this.refreshCalendar();
         });
         
-        // Create calendar table
-        const calendarTable = container.createEl('table', { cls: 'manuscript-calendar' });
-        
-        // Create header row
-        const headerRow = calendarTable.createEl('tr');
-        
-        // Add the week number header with a separator
-        const weekHeader = headerRow.createEl('th', { text: 'W', cls: 'week-number' });
-        
-        // Updated day labels with three letters
-        const dayLabels = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
-        dayLabels.forEach(day => {
-            headerRow.createEl('th', { text: day });
-        });
+        // Hovering the arrows while dragging scenes pages to another month
+        this.enableDragPaging(prevButton, -1);
+        this.enableDragPaging(nextButton, 1);
         
-        // Store the table for later updates
-        this.calendarTable = calendarTable;
+        // Store the body container for later updates
+        this.calendarBody = container.createDiv({ cls: `calendar-body calendar-mode-${this.plugin.settings.viewMode}` });
         
         // Render the calendar body
         await this.renderCalendarBody();
     }
 
-    // Helper function to parse word count from metadata
-    private parseWordCount(wordCount: any): number {
-        if (typeof wordCount === 'number') {
-            return wordCount;
-        }
+    // Toolbar above the header: project switcher and view mode toggle
+    private renderToolbar(container: HTMLElement) {
+        const toolbar = container.createDiv({ cls: 'calendar-toolbar' });
         
-        if (typeof wordCount === 'string') {
-            // Remove commas and any whitespace
-            const cleanCount = wordCount.replace(/,/g, '').trim();
-            const parsed = parseInt(cleanCount, 10);
-            return isNaN(parsed) ? 0 : parsed;
+        // Project switcher, only needed once there is more than one project
+        if (this.plugin.projects.projects.length > 1) {
+            const switcher = new DropdownComponent(toolbar.createDiv({ cls: 'project-switcher' }));
+            this.plugin.projects.projects.forEach(project => switcher.addOption(project.id, project.name));
+            switcher.addOption(ALL_PROJECTS, 'All projects');
+            switcher
+                .setValue(this.plugin.settings.activeProject)
+                .onChange(value => this.plugin.setActiveProject(value));
         }
         
-        return 0;
-    }
-
-    async renderCalendarBody() {
-        // Clear existing visual rows except header
-        const rows = this.calendarTable.querySelectorAll('tr:not(:first-child)');
-        rows.forEach(row => row.remove());
-
-        // **** Reset weekly stats before recalculating ****
-        this.completedWeekStats.clear(); 
-        // ************************************************
-        
-        const today = new Date();
-        const currentYear = this.currentDate.getFullYear();
-        const currentMonth = this.currentDate.getMonth();
+        const modeToggle = toolbar.createDiv({ cls: 'view-mode-toggle' });
+        VIEW_MODES.forEach(({ mode, label, title }) => {
+            const button = modeToggle.createSpan({
+                text: label,
+                cls: 'view-mode-button',
+                attr: { role: 'button', tabindex: '0', 'aria-label': title }
+            });
+            if (mode === this.plugin.settings.viewMode) {
+                button.addClass('is-active');
+            }
+            button.addEventListener('click', () => this.setViewMode(mode));
+        });
         
-        // Get first day of month
-        const firstDay = new Date(currentYear, currentMonth, 1);
-        // Get last day of month
-        const lastDay = new Date(currentYear, currentMonth + 1, 0);
+        const writtenButton = toolbar.createSpan({
+            cls: 'toolbar-button clickable-icon',
+            attr: { role: 'button', tabindex: '0', 'aria-label': 'Show words written per day' }
+        });
+        setIcon(writtenButton, 'pencil-line');
+        if (this.plugin.settings.showWordsWritten) {
+            writtenButton.addClass('is-active');
+        }
+        writtenButton.addEventListener('click', async () => {
+            this.plugin.settings.showWordsWritten = !this.plugin.settings.showWordsWritten;
+            await this.plugin.saveData(this.plugin.settings);
+            this.refreshCalendar();
+        });
         
-        // Calculate the first day to display (Sunday before or on the first day of month)
-        const firstDisplayDay = new Date(firstDay);
-        // Adjust to previous Sunday (for calendar display)
-        firstDisplayDay.setDate(firstDay.getDate() - firstDay.getDay());
+        const statsButton = toolbar.createSpan({
+            cls: 'toolbar-button clickable-icon',
+            attr: { role: 'button', tabindex: '0', 'aria-label': 'Statistics' }
+        });
+        setIcon(statsButton, 'bar-chart-2');
+        statsButton.addEventListener('click', () => new StatisticsModal(this.app, this.plugin).open());
         
-        // Get all notes with Due dates and Revision status
-        const revisionMap = new Map<string, Array<{revision: number, publishStage: string}>>();
-        let notesByDate = new Map<string, DataviewPage[]>();
-        let todoFutureDates = new Set<string>(); // Track future Todo dates
-        let workingFutureDates = new Set<string>(); // Track future Working dates
-        let overdueDates = new Set<string>(); // Track overdue dates
+        const filterButton = toolbar.createSpan({
+            cls: 'toolbar-button clickable-icon',
+            attr: { role: 'button', tabindex: '0', 'aria-label': 'Filter scenes' }
+        });
+        setIcon(filterButton, 'filter');
+        if (this.plugin.isFiltered()) {
+            filterButton.addClass('is-active');
+        }
+        filterButton.addEventListener('click', async () => {
+            this.plugin.settings.showFilterBar = !this.plugin.settings.showFilterBar;
+            await this.plugin.saveData(this.plugin.settings);
+            this.refreshCalendar();
+        });
+    }
+
+    // Filter chips per frontmatter field, presets, and a summary of the active filter
+    private renderFilterBar(container: HTMLElement) {
+        const settings = this.plugin.settings;
+        if (!settings.showFilterBar && !this.plugin.isFiltered()) return;
+        
+        const bar = container.createDiv({ cls: 'calendar-filter-bar' });
+        // Values come from all of the project's scenes, so a filtered-out value can be chosen again
+        const scenes = this.plugin.getProjectScenes();
+        
+        settings.filterFields.forEach(field => {
+            const condition = settings.filter.find(c => c.field === field);
+            const selected = condition?.values ?? [];
+            const chip = bar.createSpan({
+                cls: 'filter-chip',
+                text: selected.length > 0 ? `${field}: ${selected.join(', ')}` : field,
+                attr: { role: 'button', tabindex: '0' }
+            });
+            if (selected.length > 0) chip.addClass('is-active');
+            
+            chip.addEventListener('click', (event) => {
+                const values = collectFieldValues(scenes, field);
+                const menu = new Menu();
+                if (values.length === 0) {
+                    menu.addItem(item => item.setTitle(`No scene has a ${field}`).setDisabled(true));
+                }
+                values.forEach(value => {
+                    const isSelected = selected.some(v => v.toLowerCase() === value.toLowerCase());
+                    menu.addItem(item => item
+                        .setTitle(value)
+                        .setChecked(isSelected)
+                        .onClick(() => {
+                            const next = isSelected
+                                ? selected.filter(v => v.toLowerCase() !== value.toLowerCase())
+                                : [...selected, value];
+                            const others = settings.filter.filter(c => c.field !== field);
+                            this.plugin.setFilter([...others, { field, values: next }]);
+                        }));
+                });
+                if (selected.length > 0) {
+                    menu.addSeparator();
+                    menu.addItem(item => item
+                        .setTitle(`Any ${field}`)
+                        .setIcon('x')
+                        .onClick(() => this.plugin.setFilter(settings.filter.filter(c => c.field !== field))));
+                }
+                menu.showAtMouseEvent(event);
+            });
+        });
+        
+        if (settings.filterPresets.length > 0) {
+            const presets = new DropdownComponent(bar.createDiv({ cls: 'filter-presets' }));
+            presets.addOption('', 'Presets');
+            settings.filterPresets.forEach((preset, index) => presets.addOption(String(index), preset.name));
+            presets.onChange(value => {
+                const preset = settings.filterPresets[parseInt(value, 10)];
+                if (preset) this.plugin.setFilter(preset.conditions.map(c => ({ field: c.field, values: [...c.values] })));
+            });
+        }
+        
+        if (this.plugin.isFiltered()) {
+            const saveButton = bar.createSpan({
+                cls: 'filter-action clickable-icon',
+                attr: { role: 'button', tabindex: '0', 'aria-label': 'Save as preset' }
+            });
+            setIcon(saveButton, 'save');
+            saveButton.addEventListener('click', () => {
+                new FilterPresetModal(this.app, '', async (name) => {
+                    const conditions = settings.filter.map(c => ({ field: c.field, values: [...c.values] }));
+                    const existing = settings.filterPresets.find(preset => preset.name === name);
+                    if (existing) {
+                        existing.conditions = conditions;
+                    } else {
+                        settings.filterPresets.push({ name, conditions });
+                    }
+                    await this.plugin.saveData(settings);
+                    this.refreshCalendar();
+                }).open();
+            });
+            
+            const clearButton = bar.createSpan({
+                cls: 'filter-action clickable-icon',
+                attr: { role: 'button', tabindex: '0', 'aria-label': 'Clear filter' }
+            });
+            setIcon(clearButton, 'x');
+            clearButton.addEventListener('click', () => this.plugin.setFilter([]));
+            
+            const shown = this.plugin.getVisibleScenes().length;
+            bar.createSpan({
+                cls: 'filter-summary',
+                text: `${shown} of ${scenes.length}`,
+                attr: { 'aria-label': describeFilter(settings.filter) }
+            });
+        }
+    }
+
+    // Year shown next to the title
+    private pageYear(): number {
+        if (this.plugin.settings.viewMode === 'week') {
+            return this.getWeekStart(LocalDate.fromDate(this.currentDate)).year;
+        }
+        return this.currentDate.getFullYear();
+    }
+
+    // Title for the current page, e.g. "Mar", "Mar 4", "Q1" or "Year"
+    private headerTitle(): string {
+        switch (this.plugin.settings.viewMode) {
+            case 'week': {
+                const start = this.getWeekStart(LocalDate.fromDate(this.currentDate));
+                return `${MONTH_NAMES[start.month - 1]} ${start.day}`;
+            }
+            case 'quarter':
+                return `Q${Math.floor(this.currentDate.getMonth() / 3) + 1}`;
+            case 'year':
+                return 'Year';
+            default:
+                return MONTH_NAMES[this.currentDate.getMonth()];
+        }
+    }
+
+    // Find the highest publish stage and the completed scene count per stage
+    private computeStageSummary(scenes: SceneRecord[], pipeline: StagePipeline): { highestStage: string, stageCounts: Map<string, number> } {
         
-        // Track completed scenes by week and stage
-        const completedScenesByWeekAndStage = new Map<string, Map<string, number>>();
+        // Default to the first stage of the pipeline
+        let highestStage = pipeline.first.name;
+        
+        // **** Calculate Stage Counts ****
+        const stageCounts = new Map<string, number>(
+            pipeline.stages.map(stage => [stage.name, 0] as [string, number])
+        );
         
         try {
-            // Check if Dataview plugin is available
-            if (this.app.plugins.plugins.dataview) {
-                const dataviewApi = this.app.plugins.plugins.dataview.api;
-                
-                // Get folder path from settings and clean it up
-                const rawFolderPath = this.plugin.settings.manuscriptFolder;
-                // Use an explicit check against undefined or null, keeping empty strings as empty
-                let folderPath = (rawFolderPath === undefined || rawFolderPath === null) ? "" : rawFolderPath;
-                
-                // Declare pages variable at the top level so it's accessible outside if/else blocks
-                let pages: DataviewPage[] = [];
+            // Current highest stage index
+            let highestStageIndex = 0;
+            
+            // Check each scene for Publish Stage and count completed scenes by stage
+            scenes.forEach(scene => {
+                const sceneStage = scene.publishStage;
                 
-                // Only proceed with filtering if a folder path is specified - use explicit check for empty string
-                if (!folderPath || folderPath.trim() === "") {
-                    // If no folder path is specified, get all pages
-                    try {
-                        if (dataviewApi.index && typeof dataviewApi.index.touch === 'function') {
-                            // Refresh the dataview cache
-                            await dataviewApi.index.touch();
-                        }
-                        pages = await dataviewApi.pages();
-                    } catch (e) {
-                        console.error("Error getting all pages:", e);
-                    }
-                } else {
-                    // Remove leading and trailing slashes and whitespace for consistency
-                    folderPath = folderPath.trim().replace(/^\/+|\/+$/g, '');
-                    
-                    // Try different query formats to handle path variations
-                    try {
-                        // Force refresh of dataview cache before querying
-                        if (dataviewApi.index && typeof dataviewApi.index.touch === 'function') {
-                            // This forces dataview to refresh its cache for the manuscript folder
-                            await dataviewApi.index.touch();
-                        }
-                        
-                        // Try multiple query approaches in sequence
-                        let querySuccess = false;
-                        
-                        // 1. First try with explicit folder: prefix and quotes (most reliable)
-                        try {
-                            pages = await dataviewApi.pages(`folder:"${folderPath}"`);
-                            querySuccess = true;
-                        } catch (e1) {
-                            // Failed, will try next approach
-                        }
-                        
-                        // 2. Try with just quotes if first attempt failed
-                        if (!querySuccess) {
-                            try {
-                                pages = await dataviewApi.pages(`"${folderPath}"`);
-                                querySuccess = true;
-                            } catch (e2) {
-                                // Failed, will try next approach
-                            }
-                        }
-                        
-                        // 3. Try without quotes as last resort
-                        if (!querySuccess) {
-                            try {
-                                pages = await dataviewApi.pages(folderPath);
-                                querySuccess = true;
-                            } catch (e3) {
-                                console.error("All query attempts failed for path:", folderPath);
-                            }
-                        }
-                        
-                        // If all attempts failed, fall back to getting all pages
-                        if (!querySuccess) {
-                            pages = await dataviewApi.pages();
-                        }
-                    } catch (error) {
-                        console.error("Unexpected error during query attempts:", error);
-                        // Fallback to getting all pages in case of catastrophic error
-                        try {
-                            pages = await dataviewApi.pages();
-                        } catch (fallbackError) {
-                            console.error("Even fallback query failed:", fallbackError);
-                            pages = []; // Empty array as last resort
-                        }
-                    }
+                // Check if this stage is higher than current highest
+                const stageIndex = pipeline.rank(sceneStage);
+                if (stageIndex > highestStageIndex) {
+                    highestStageIndex = stageIndex;
+                    highestStage = pipeline.stages[highestStageIndex].name;
                 }
                 
-                // Track all completed scenes 
-                const completedScenes: { date: Date, isStageZeroFresh: boolean, isOtherStage: boolean }[] = [];
-                
-                // Process all pages
-                if (pages.length > 0) {
-                    // Add this new section to process Todo and Working scenes with future dates
-                    // Get all pages with Todo or Working status
-                    const todoOrWorkingPages = pages.filter(page => {
-                        const hasSceneClass = page.Class && (
-                            Array.isArray(page.Class) 
-                                ? page.Class.includes("Scene") 
-                                : page.Class === "Scene"
-                        );
-                        
-                        const hasRelevantStatus = page.Status && (
-                            (Array.isArray(page.Status) && (page.Status.includes("Todo") || page.Status.includes("Working"))) ||
-                            (typeof page.Status === 'string' && (page.Status === "Todo" || page.Status === "Working"))
-                        );
-                        
-                        return hasSceneClass && hasRelevantStatus;
-                    });
-                    
-                    // Process Todo/Working pages to identify future dates
-                    todoOrWorkingPages.forEach(page => {
-                        if (!page.Due) return;
-                        
-                        // Parse the Due date
-                        let dueDate: Date;
-                        try {
-                            let rawDate: string = typeof page.Due === 'object' && page.Due.path 
-                                ? page.Due.path 
-                                : page.Due as string;
-                            dueDate = new Date(rawDate);
-                            
-                            if (isNaN(dueDate.getTime())) return;
-                            
-                            // Check if the due date is today or in the future (ignoring time)
-                            if (dueDate.setHours(0,0,0,0) >= today.setHours(0,0,0,0)) {
-                                const dateKey = dueDate.toISOString().split('T')[0];
-                                
-                                // Determine status and add to appropriate set
-                                const isWorking = (Array.isArray(page.Status) && page.Status.includes("Working")) || page.Status === "Working";
-                                if (isWorking) {
-                                    workingFutureDates.add(dateKey);
-                                } else { // Must be Todo
-                                    todoFutureDates.add(dateKey);
-                                }
-                                
-                                // Add to notesByDate for potential clicking/opening
-                                if (!notesByDate.has(dateKey)) {
-                                    notesByDate.set(dateKey, []);
-                                }
-                                notesByDate.get(dateKey)?.push(page);
-                            }
-                        } catch (error) {
-                            return;
-                        }
-                    });
-
-                    // **** Restore Overdue Scene Identification ****
-                    // Find overdue items - not complete but due date is in the past
-                    const overduePages = pages.filter(page => {
-                        const isNotComplete = page.Status && (
-                            (Array.isArray(page.Status) && !page.Status.includes("Complete")) ||
-                            (typeof page.Status === 'string' && page.Status !== "Complete")
-                        );
-
-                        const hasSceneClass = page.Class && (
-                            Array.isArray(page.Class)
-                                ? page.Class.includes("Scene")
-                                : page.Class === "Scene"
-                        );
-
-                        let isDueDateInPast = false;
-                        if (page.Due) {
-                            try {
-                                let rawDueDate: string = typeof page.Due === 'object' && page.Due.path
-                                    ? page.Due.path
-                                    : page.Due as string;
-                                const dueDate = new Date(rawDueDate);
-                                // Check if date is valid and strictly before today (ignoring time)
-                                isDueDateInPast = !isNaN(dueDate.getTime()) && dueDate.setHours(0,0,0,0) < today.setHours(0,0,0,0);
-                            } catch (error) {
-                                isDueDateInPast = false;
-                            }
-                        }
-
-                        return isNotComplete && hasSceneClass && isDueDateInPast;
-                    });
+                // Count completed scenes by stage
+                if (isSceneComplete(scene) && stageCounts.has(sceneStage)) {
+                    stageCounts.set(sceneStage, stageCounts.get(sceneStage)! + 1);
+                }
+            });
+            
+            this.debugLog("Current highest stage:", highestStage);
+            this.debugLog("Completed scene counts:", Object.fromEntries(stageCounts));
+        } catch (e) {
+            console.error("Error determining highest publish stage:", e);
+            highestStage = pipeline.first.name; // Default fallback
+        }
+        
+        return { highestStage, stageCounts };
+    }
 
-                    // Process overdue pages to populate overdueDates and notesByDate
-                    overduePages.forEach(page => {
-                        if (!page.Due) return;
-                        try {
-                            let rawDate: string = typeof page.Due === 'object' && page.Due.path ? page.Due.path : page.Due as string;
-                            const dueDate = new Date(rawDate);
-                            if (isNaN(dueDate.getTime())) return;
+    // Summary of the header stage column, used to skip re-rendering it when nothing moved
+    private headerStageSignature(): string {
+        if (this.plugin.isAllProjects()) {
+            const scenes = this.plugin.getVisibleScenes();
+            return this.plugin.projects.projects.map(project => {
+                const { highestStage, stageCounts } = this.computeStageSummary(
+                    scenes.filter(scene => scene.project === project.id),
+                    this.plugin.projects.pipeline(project.id)
+                );
+                return `${project.id}:${highestStage}|${stageCounts.get(highestStage) || 0}`;
+            }).join(';') + `|${this.countdownSignature()}`;
+        }
+        const { highestStage, stageCounts } = this.computeStageSummary(this.plugin.getVisibleScenes(), this.plugin.stagePipeline);
+        const forecast = this.plugin.getForecast();
+        const forecastKeys = forecast ? [forecast.expected, forecast.optimistic, forecast.pessimistic].map(date => date?.key).join(',') : '';
+        return `${highestStage}|${stageCounts.get(highestStage) || 0}|${this.countdownSignature()}|${forecastKeys}`;
+    }
 
-                            const dateKey = dueDate.toISOString().split('T')[0];
-                            overdueDates.add(dateKey); // Add to set for quick checking
+    // Projected finish of the current stage next to the stage table
+    private renderForecast(headerStage: HTMLElement) {
+        const forecast = this.plugin.getForecast();
+        if (!forecast || forecast.remainingScenes === 0) return;
+        
+        const { expected, optimistic, pessimistic } = forecast;
+        const label = expected
+            ? `${forecast.stage} done around ${formatForecastDate(expected)}\nBetween ${formatForecastDate(optimistic)} and ${formatForecastDate(pessimistic)}\n${forecast.remainingScenes} scenes left at ${forecast.scenesPerWeek.toFixed(1)} a week`
+            : `No ${forecast.stage} scenes completed in the last ${forecast.weeksSampled} weeks, so there is no forecast yet`;
+        const forecastEl = headerStage.createDiv({ cls: 'stage-forecast', attr: { 'aria-label': label } });
+        setIcon(forecastEl.createSpan({ cls: 'stage-forecast-icon' }), 'trending-up');
+        forecastEl.createSpan({
+            cls: 'stage-forecast-date',
+            text: expected ? `${expected.day} ${expected.toDate().toLocaleString(undefined, { month: 'short' })}` : '—'
+        });
+    }
 
-                            // Ensure overdue notes are also in notesByDate for tooltip/click
-                             if (!notesByDate.has(dateKey)) {
-                                notesByDate.set(dateKey, []);
-                            }
-                            // Avoid adding duplicates if already added by future check (unlikely but possible)
-                            if (!notesByDate.get(dateKey)?.some(note => note.file.path === page.file.path)) {
-                                notesByDate.get(dateKey)?.push(page);
-                            }
-                        } catch (error) {
-                            console.error("Error processing overdue date for identification:", error);
-                        }
-                    });
-                    // **** End Restore Overdue Scene Identification ****
-
-                    // Filter for pages where Status = "Complete" AND Class = "Scene"
-                    const completedScenes = pages.filter(page => {
-                        // Check if Status property exists and equals "Complete"
-                        const hasCompleteStatus = page.Status && (
-                            Array.isArray(page.Status) 
-                                ? page.Status.includes("Complete") 
-                                : page.Status === "Complete"
-                        );
-                        
-                        // Check if Class property exists and equals "Scene"
-                        const hasSceneClass = page.Class && (
-                            Array.isArray(page.Class) 
-                                ? page.Class.includes("Scene") 
-                                : page.Class === "Scene"
-                        );
-                        
-                        return hasCompleteStatus && hasSceneClass;
-                    });
-                    
-                    // Process completed scenes and organize by due date
-                    completedScenes.forEach(page => {
-                        if (!page.Due) return;
-                        
-                        try {
-                            // Extract date from link if needed
-                            let rawDate: string = typeof page.Due === 'object' && page.Due.path 
-                                ? page.Due.path 
-                                : page.Due as string;
-                            const dueDate = new Date(rawDate);
-                            
-                            if (isNaN(dueDate.getTime())) return;
-                                
-                                // Only count scenes up to today
-                                if (dueDate > today) return;
-                            
-                            // Format date as YYYY-MM-DD
-                            const dateKey = dueDate.toISOString().split('T')[0];
-                                
-                                // Get week for the date
-                                const weekNum = this.getWeekNumber(dueDate);
-                                const weekYear = `${dueDate.getFullYear()}-W${weekNum}`;
-
-                            // Get word count from the page using the new parseWordCount function
-                            const wordCount = this.parseWordCount(page["Words"] || page["Word Count"] || 0);
-                        
-                            // Get revision number and publish stage
-                            const revision = typeof page.Revision === 'number' ? page.Revision : 0;
-                            let publishStage = page["Publish Stage"] || "ZERO";
-                            
-                            // If it's an array, take the first value
-                            if (Array.isArray(publishStage)) {
-                                publishStage = publishStage[0] || "ZERO";
-                            }
-                            
-                            // Convert legacy publish stage values to new format
-                            const stageMap = {
-                                "Zero": "ZERO",
-                                "First": "AUTHOR",
-                                "Editing": "HOUSE",
-                                "Press": "PRESS"
-                            };
-                            
-                            // If the publishStage is one of the legacy values, convert it
-                            if (publishStage in stageMap) {
-                                publishStage = stageMap[publishStage as keyof typeof stageMap];
-                            } else {
-                                // Normalize to uppercase for consistent checking
-                                publishStage = publishStage.toString().toUpperCase();
-                            }
+    private countdownSignature(): string {
+        const countdown = nextMilestoneCountdown(this.plugin.getVisibleMilestones(), this.plugin.getVisibleScenes(), LocalDate.today());
+        return countdown
+            ? `${countdown.milestone.name}|${countdown.daysLeft}|${countdown.remainingScenes}|${countdown.remainingWords}`
+            : '';
+    }
 
-                            // Remove the stage-specific check for counting towards the ratio.
-                            // Now, ANY completed scene (Class=Scene, Status=Complete, Due<=today)
-                            // meeting the filter criteria will contribute to the week's ratio stats.
-                            const shouldCountScene = true; // Always count if it reached this point
-
-                            // Add logging BEFORE the decision is made
-                            // Use the view's helper
-                            this.debugLog(`Checking scene for ratio count (Now always true if Complete/Scene/PastDue):`, {
-                                scenePath: page.file.path,
-                                scenePublishStage: publishStage,
-                                sceneRevision: revision,
-                                calendarCurrentHighestStage: this.currentHighestStage // Logged for info, but not used in count decision
-                            });
-
-                            if (shouldCountScene) {
-                                // Update week stats only if the scene should be counted
-                                if (!this.completedWeekStats.has(weekYear)) {
-                                    this.completedWeekStats.set(weekYear, {
-                                        sceneCount: 0,
-                                        wordCount: 0
-                                    });
-                                }
-                                const stats = this.completedWeekStats.get(weekYear)!;
-                                stats.sceneCount++;
-                                stats.wordCount += wordCount;
-
-                                // Add detailed logging for week stats update (only when counted)
-                                // Use the view's helper
-                                this.debugLog(`Counted scene for week ${weekYear} (Stage: ${this.currentHighestStage}, Scene Stage: ${publishStage}, Revision: ${revision})`, {
-                                    scenePath: page.file.path,
-                                    dueDate: dateKey,
-                                    newSceneCount: stats.sceneCount,
-                                    addedWordCount: wordCount,
-                                    newTotalWordCount: stats.wordCount
-                                });
-                            } else {
-                                // This 'else' block will now likely never be reached for completedScenes,
-                                // unless the initial filtering changes. Keep for potential future debug.
-                                // Log skipped scenes for clarity
-                                // Use the view's helper
-                                this.debugLog(`Skipped scene for week ${weekYear} ratio count (Should not happen for completedScenes now)`, {
-                                    scenePath: page.file.path
-                                });
-                            }
-                            // --- End Modified Counting Logic ---
-
-                            // Track scenes by week and stage for week completion indicators (this is separate)
-                                // Track scenes by week and stage for week completion indicators (this is separate)
-                                if (!completedScenesByWeekAndStage.has(weekYear)) {
-                                    completedScenesByWeekAndStage.set(weekYear, new Map<string, number>());
-                                    
-                                    // Debug: Log the start of week tracking for this week
-                                    // Use the view's helper
-                                    const weekStart = new Date(dueDate);
-                                    weekStart.setDate(dueDate.getDate() - dueDate.getDay()); // Set to Sunday
-                                    const weekEnd = new Date(weekStart);
-                                    weekEnd.setDate(weekStart.getDate() + 6); // Set to Saturday
-                                    
-                                    this.debugLog(`New week tracking for ${weekYear}`, {
-                                        weekStart: weekStart.toDateString(),
-                                        weekEnd: weekEnd.toDateString(),
-                                        dueDate: dueDate.toDateString(),
-                                        dayOfWeek: dueDate.getDay()
-                                    });
-                                }
-                                
-                                const stageCount = completedScenesByWeekAndStage.get(weekYear)!;
-                                const count = stageCount.get(publishStage) || 0;
-                                stageCount.set(publishStage, count + 1);
-                                
-                                // Debug: Log the scene count update
-                                // Use the view's helper
-                                this.debugLog(`Adding scene for ${weekYear}`, {
-                                    date: dueDate.toDateString(),
-                                    stage: publishStage,
-                                    newCount: count + 1,
-                                    scenePath: page.file.path
-                                });
-                                
-                                // Rest of the original code to populate revisionMap and notesByDate
-                            if (!revisionMap.has(dateKey)) {
-                                revisionMap.set(dateKey, []);
-                            }
-                            
-                            // Add to the array for this date
-                            revisionMap.get(dateKey)?.push({
-                                revision: revision,
-                                publishStage: publishStage
-                            });
-                            
-                            // Also add to notesByDate for potential clicking/opening
-                            if (!notesByDate.has(dateKey)) {
-                                notesByDate.set(dateKey, []);
-                            }
-                            
-                            const notes = notesByDate.get(dateKey);
-                            if (notes) {
-                                notes.push(page);
-                            }
-                        } catch (error) {
-                            console.error("Error processing scene:", error);
-                        }
-                    });
-                }
-                
-                // Track completed scenes by week
-                completedScenes.forEach(scene => {
-                    const weekYear = `${scene.date.getFullYear()}-W${this.getWeekNumber(scene.date)}`;
-                    // We're already tracking scenes by week and stage with the correct implementation above
-                });
-            }
-        } catch (e) {
-            console.error("Error rendering calendar body:", e);
+    // Days to the next milestone, with the scenes and words still due before it
+    private renderMilestoneCountdown(headerStage: HTMLElement) {
+        const countdown = nextMilestoneCountdown(this.plugin.getVisibleMilestones(), this.plugin.getVisibleScenes(), LocalDate.today());
+        if (!countdown) return;
+        
+        const { milestone, daysLeft, remainingScenes, remainingWords } = countdown;
+        const when = daysLeft === 0 ? 'today' : `in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`;
+        const left = `${remainingScenes} ${remainingScenes === 1 ? 'scene' : 'scenes'} and about ${remainingWords.toLocaleString()} words to go`;
+        const countdownEl = headerStage.createDiv({
+            cls: 'milestone-countdown',
+            attr: { 'aria-label': `${milestone.name} ${when} (${milestone.date.key})\n${left}` }
+        });
+        if (remainingScenes > 0 && daysLeft < remainingScenes) {
+            countdownEl.addClass('is-tight');
         }
+        const flag = countdownEl.createSpan({ cls: 'milestone-countdown-icon' });
+        setIcon(flag, 'flag');
+        const text = countdownEl.createDiv({ cls: 'milestone-countdown-text' });
+        text.createSpan({ cls: 'milestone-countdown-days', text: daysLeft === 0 ? 'Today' : `${daysLeft}d` });
+        text.createSpan({ cls: 'milestone-countdown-left', text: `${remainingScenes} sc · ${formatWordsShort(remainingWords)} w` });
+    }
+
+    // Render the stage icon, name and count in the header
+    private renderHeaderStage() {
+        const headerStage = this.headerStageEl;
+        if (!headerStage) return;
+        
+        this.stageSignature = this.headerStageSignature();
+        
+        // Clear the stage column before re-rendering
+        headerStage.empty();
         
-        // Helper function to check if a date is today
-        function isToday(date: Date): boolean {
-            const today = new Date();
-            return date.getDate() === today.getDate() &&
-                date.getMonth() === today.getMonth() &&
-                date.getFullYear() === today.getFullYear();
+        // The overlay shows each project's stage instead of mixing them
+        if (this.plugin.isAllProjects()) {
+            this.currentHighestStage = '';
+            this.plugin.currentHighestStage = '';
+            this.renderProjectStages(headerStage);
+            this.renderMilestoneCountdown(headerStage);
+            return;
         }
         
-        // Render the calendar
-        let currentDate = new Date(firstDisplayDay);
+        const pipeline = this.plugin.stagePipeline;
+        const { highestStage, stageCounts } = this.computeStageSummary(this.plugin.getVisibleScenes(), pipeline);
         
-        // Tooltip data storage using WeakMap to avoid memory leaks
-        const tooltipData = new WeakMap();
+        // Store the highest stage for use in renderCalendarBody
+        this.currentHighestStage = highestStage;
+        this.plugin.currentHighestStage = highestStage;
         
-        // Render until we reach the last day of the current month or complete the week
-        while (currentDate <= lastDay || currentDate.getDay() !== 0) {
-            // Create week row
-            const weekRow = this.calendarTable.createEl('tr');
-            
-            // Add week number cell
-            const weekNum = this.getWeekNumber(currentDate);
-            const weekYear = `${currentDate.getFullYear()}-W${weekNum}`;
-            const weekCell = weekRow.createEl('td', { 
-                cls: 'week-number' 
-            });
+        const currentStageCount = stageCounts.get(this.currentHighestStage) || 0;
+        
+        const currentStageClass = pipeline.stageClass(this.currentHighestStage);
+        
+        // Create the table-like structure for the stage info
+        const stageTable = document.createElement('div');
+        stageTable.className = 'stage-table';
+        
+        // Column 1: Icon
+        const iconColumn = document.createElement('div');
+        iconColumn.className = 'stage-icon-column';
+        stageTable.appendChild(iconColumn);
+        
+        // Create the icon container and add to icon column
+        const stageIconContainer = document.createElement('span');
+        stageIconContainer.className = 'stage-icon';
+        stageIconContainer.classList.add(currentStageClass);
+        setIcon(stageIconContainer, pipeline.icon(this.currentHighestStage));
+        iconColumn.appendChild(stageIconContainer);
+        
+        // Column 2: Stage text and count
+        const textColumn = document.createElement('div');
+        textColumn.className = 'stage-text-column';
+        stageTable.appendChild(textColumn);
+        
+        // Row 1: Stage indicator
+        const stageIndicator = document.createElement('span');
+        stageIndicator.className = 'stage-indicator';
+        stageIndicator.textContent = this.currentHighestStage;
+        stageIndicator.classList.add(currentStageClass);
+        textColumn.appendChild(stageIndicator);
+        
+        // Row 2: Count (only if > 0)
+        if (currentStageCount > 0) {
+            const stageCountElement = document.createElement('span');
+            stageCountElement.className = 'stage-count';
+            stageCountElement.classList.add(currentStageClass);
+            stageCountElement.textContent = currentStageCount.toString();
+            textColumn.appendChild(stageCountElement);
+        }
+        
+        // Add the stage table to the middle header block (column 2)
+        headerStage.appendChild(stageTable);
+        this.renderForecast(headerStage);
+        this.renderMilestoneCountdown(headerStage);
+    }
 
-            // Get stats for this week
-            const weekStats = this.completedWeekStats.get(weekYear);
+    // One stage icon per project for the all projects overlay, tinted with the project color
+    private renderProjectStages(headerStage: HTMLElement) {
+        const scenes = this.plugin.getVisibleScenes();
+        const stageTable = headerStage.createDiv({ cls: 'stage-table project-stage-table' });
+        
+        this.plugin.projects.projects.forEach(project => {
+            const pipeline = this.plugin.projects.pipeline(project.id);
+            const { highestStage, stageCounts } = this.computeStageSummary(
+                scenes.filter(scene => scene.project === project.id),
+                pipeline
+            );
+            const count = stageCounts.get(highestStage) || 0;
             
-            // Always create the week number span, but maybe add a class later
-            const weekNumSpan = weekCell.createSpan({
-                cls: 'week-number-small',
-                text: weekNum.toString()
+            const stageIcon = stageTable.createSpan({
+                cls: `stage-icon project-stage ${pipeline.stageClass(highestStage)} ${this.plugin.projects.projectClass(project.id)}`,
+                attr: { 'aria-label': `${project.name}: ${highestStage}${count > 0 ? ` (${count})` : ''}` }
             });
+            setIcon(stageIcon, pipeline.icon(highestStage));
+        });
+    }
 
-            if (weekStats && weekStats.sceneCount >= 1) {
-                // Add class to hide the week number span via CSS
-                weekNumSpan.classList.add('hidden-week-number');
-
-                // Add appropriate stage class first, so SVG inherits color
-                weekCell.addClass(`stage-${this.currentHighestStage.toLowerCase()}`);
-                
-                // Create SVG - ensuring proper params
-                // Use the view's helper
-                this.debugLog(`Creating SVG ratio for week ${weekNum} with stats:`, {
-                    sceneCount: weekStats.sceneCount,
-                    wordCount: weekStats.wordCount,
-                    denominator: Math.floor(weekStats.wordCount / 100)
-                });
-                
-                // Create and append the SVG
-                const svg = createRatioSVG(weekStats.sceneCount, Math.floor(weekStats.wordCount / 100));
-                weekCell.appendChild(svg);
+    // Collect the per-date scene data for the grid from the given scenes
+    private collectCalendarData(scenes: SceneRecord[]): CalendarData {
+        const today = LocalDate.today();
+        
+        // Get all notes with Due dates and Revision status
+        const data: CalendarData = {
+            revisionMap: new Map(),
+            notesByDate: new Map(),
+            todoFutureDates: new Set(), // Track future Todo dates
+            workingFutureDates: new Set(), // Track future Working dates
+            overdueDates: new Set(), // Track overdue dates
+            weekStats: new Map(),
+            dayStats: new Map()
+        };
+        const { revisionMap, notesByDate, todoFutureDates, workingFutureDates, overdueDates, weekStats, dayStats } = data;
+        
+        // Add a scene to notesByDate for clicking/opening, skipping duplicates
+        const addNoteForDate = (dateKey: string, scene: SceneRecord) => {
+            if (!notesByDate.has(dateKey)) {
+                notesByDate.set(dateKey, []);
+            }
+            const notes = notesByDate.get(dateKey)!;
+            if (!notes.some(note => note.path === scene.path)) {
+                notes.push(scene);
             }
+        };
+        
+        try {
+            // Process Todo and Working scenes due today or in the future
+            scenes.filter(scene => sceneHasStatus(scene, "Todo") || sceneHasStatus(scene, "Working"))
+                .forEach(scene => {
+                    if (!scene.dueDate) return;
+                    
+                    // Check if the due date is today or in the future
+                    if (scene.dueDate.compare(today) >= 0) {
+                        const dateKey = scene.dueDate.key;
+                        
+                        // Determine status and add to appropriate set
+                        if (sceneHasStatus(scene, "Working")) {
+                            workingFutureDates.add(dateKey);
+                        } else { // Must be Todo
+                            todoFutureDates.add(dateKey);
+                        }
+                        
+                        addNoteForDate(dateKey, scene);
+                    }
+                });
             
-            // Create day cells for each day of the week
-            for (let i = 0; i < 7; i++) {
-                // IMPORTANT: Save the current date for this cell before it's modified in the loop
-                // This ensures that each cell uses the correct date regardless of loop position
-                const cellDate = new Date(currentDate);
-                const dateKey = cellDate.toISOString().split('T')[0];
-                const isCurrentMonth = cellDate.getMonth() === currentMonth;
-                const isToday = cellDate.toDateString() === today.toDateString();
+            // Find overdue items - not complete but due date is in the past
+            scenes.filter(scene => scene.status.length > 0 && !isSceneComplete(scene))
+                .forEach(scene => {
+                    if (!scene.dueDate) return;
+                    
+                    // Strictly before today
+                    if (scene.dueDate.compare(today) >= 0) return;
+                    
+                    const dateKey = scene.dueDate.key;
+                    overdueDates.add(dateKey); // Add to set for quick checking
+                    addNoteForDate(dateKey, scene);
+                });
+            
+            // Process completed scenes and organize by due date
+            scenes.filter(scene => isSceneComplete(scene)).forEach(scene => {
+                if (!scene.dueDate) return;
                 
-                // Create day cell with appropriate classes
-                const dayCell = weekRow.createEl('td');
-                // Create a span for the date number
-                dayCell.createSpan({ text: cellDate.getDate().toString() });
+                // Only count scenes up to today
+                if (scene.dueDate.compare(today) > 0) return;
                 
-                // Store the date with the cell for event handlers to use
-                dayCell.dataset.date = dateKey;
+                const dateKey = scene.dueDate.key;
                 
-                // Add appropriate classes based on the date
-                if (!isCurrentMonth) {
-                    dayCell.addClass('other-month');
-                }
+                // Weeks are keyed by their start date, so a week spanning New Year
+                // collects scenes from both years in one bucket
+                const weekKey = this.getWeekStart(scene.dueDate).key;
                 
-                if (isToday) {
-                    dayCell.addClass('today');
+                // ANY completed scene (Class=Scene, Status=Complete, Due<=today)
+                // contributes to the week's ratio stats.
+                if (!weekStats.has(weekKey)) {
+                    weekStats.set(weekKey, {
+                        sceneCount: 0,
+                        wordCount: 0
+                    });
                 }
+                const stats = weekStats.get(weekKey)!;
+                stats.sceneCount++;
+                stats.wordCount += scene.words;
                 
-                // First add a real placeholder dot to maintain vertical spacing
-                // This will be shown or hidden later based on whether real dots are added
-                const placeholderDot = dayCell.createDiv({
-                    cls: 'revision-dot placeholder-dot' 
-                });
-                
-                // Variable to track if we've added any real dots
-                let hasAddedRealDot = false;
+                const dayTotals = dayStats.get(dateKey) ?? { sceneCount: 0, wordCount: 0 };
+                dayTotals.sceneCount++;
+                dayTotals.wordCount += scene.words;
+                dayStats.set(dateKey, dayTotals);
                 
-                // Check if this date has scenes
-                const hasScenes = revisionMap.has(dateKey);
-                const isFutureTodo = todoFutureDates.has(dateKey);
-                const isFutureWorking = workingFutureDates.has(dateKey);
-                const isOverdue = overdueDates.has(dateKey);
-                const isPastDate = currentDate < today && !isToday;
+                // Populate revisionMap and notesByDate
+                if (!revisionMap.has(dateKey)) {
+                    revisionMap.set(dateKey, []);
+                }
+                revisionMap.get(dateKey)?.push({
+                    revision: scene.revision,
+                    publishStage: scene.publishStage
+                });
                 
-                // Make the cell clickable if it has scenes or tasks
-                if (hasScenes || isFutureTodo || isFutureWorking || isOverdue) {
-                    dayCell.addClass('clickable-cell');
-                    
-                    // Apply classes for future states
-                    if (isFutureTodo) {
-                        dayCell.addClass('future-todo');
-                    }
-                    if (isFutureWorking) {
-                        dayCell.addClass('future-working'); // Add a class if needed for other styling
-                    }
-                    
-                    // Overdue indicator takes priority visually
-                    if (isOverdue) {
-                        // Check if there's ALSO a completed scene for this day
-                        const hasCompletedScene = notesByDate.get(dateKey)?.some(note => 
-                            isNoteComplete(note) // Use helper function
-                        );
-
-                        if (hasCompletedScene) {
-                            // *** Add Debugging Here ***
-                            this.debugLog(`Creating SPLIT dot for ${dateKey}. isOverdue: ${isOverdue}, hasCompletedScene: ${hasCompletedScene}`);
-                            // *** End Debugging ***
-                            // Create SPLIT dot: Overdue + Completed Stage
-                            hasAddedRealDot = true;
-                            const splitDot = dayCell.createDiv({ cls: 'revision-dot split-revision' });
-                            
-                            // Find the first completed scene to get its stage for the color
-                            const completedNote = notesByDate.get(dateKey)?.find(note => 
-                                isNoteComplete(note) // Use helper function
-                            );
+                addNoteForDate(dateKey, scene);
+            });
+        } catch (e) {
+            console.error("Error collecting calendar data:", e);
+        }
+        
+        return data;
+    }
 
-                            let stageCls = 'stage-zero'; // Default
-                            if (completedNote && completedNote["Publish Stage"]) {
-                                 let publishStage = completedNote["Publish Stage"];
-                                 if (Array.isArray(publishStage)) {
-                                    publishStage = publishStage[0] || "ZERO";
-                                }
-                                const stageMap = { "Zero": "ZERO", "First": "AUTHOR", "Editing": "HOUSE", "Press": "PRESS" };
-                                if (publishStage in stageMap) {
-                                    publishStage = stageMap[publishStage as keyof typeof stageMap];
-                                } else {
-                                    publishStage = publishStage.toString().toUpperCase();
-                                }
-                                stageCls = `stage-${publishStage.toLowerCase()}`;
-                            }
-                            
-                            // First half: Completed scene stage color
-                            splitDot.createDiv({ cls: `revision-part ${stageCls}` });
-                            // Second half: Overdue color
-                            splitDot.createDiv({ cls: 'revision-part overdue' });
-
-                        } else {
-                            // *** Add Debugging Here ***
-                            this.debugLog(`Creating REGULAR overdue dot for ${dateKey}. isOverdue: ${isOverdue}, hasCompletedScene: ${hasCompletedScene}`);
-                             // *** End Debugging ***
-                           // Create REGULAR overdue dot (only overdue, no completed)
-                            hasAddedRealDot = true;
-                            const overdueDot = dayCell.createDiv({ cls: 'revision-dot overdue' });
-                        }
-                    }
-                    // If not overdue, check for future Working status
-                    else if (isFutureWorking) {
-                        const workingDot = dayCell.createDiv({ cls: 'revision-dot working' }); // Use pink dot
-                        hasAddedRealDot = true;
-                    }
-                    // If not overdue or future, check for future Todo status
-                    else if (isFutureTodo) {
-                        const futureTodoDot = dayCell.createDiv({ cls: 'revision-dot future-todo-dot' }); // Use grey dot
-                        hasAddedRealDot = true;
-                    }
-                    // If not overdue or future, show completed scene indicators
-                    else if (hasScenes) {
-                        const scenesForDate = revisionMap.get(dateKey);
-                        
-                        if (scenesForDate) {
-                            // Track which publish stages we've seen for this date
-                            const stagesForDate = new Set<string>();
-                            let hasZeroRevision = false;
-                            let hasNonZeroRevision = false;
-                            
-                            // Determine which stages are present
-                            scenesForDate.forEach(scene => {
-                                stagesForDate.add(scene.publishStage);
-                                
-                                if (scene.revision === 0) {
-                                    hasZeroRevision = true;
-                                } else {
-                                    hasNonZeroRevision = true;
-                                }
-                            });
-
-                            // Only show publish stage colors for today or future dates
-                            // For past dates, they're either overdue (red) or complete (stage colors)
-                            const stageChecks = [
-                                { stage: "ZERO", cls: "stage-zero" },
-                                { stage: "AUTHOR", cls: "stage-author" },
-                                { stage: "HOUSE", cls: "stage-house" },
-                                { stage: "PRESS", cls: "stage-press" }
-                            ];
-                            
-                            // Debug log for stagesForDate
-                            // Use the view's helper
-                            this.debugLog(`Date ${dateKey} has stages:`, Array.from(stagesForDate));
-                            this.debugLog(`Stage checks:`, stageChecks);
-                            
-                            // Also add support for legacy values for backward compatibility
-                            const stageCheckMap = {
-                                "Zero": "ZERO",
-                                "First": "AUTHOR",
-                                "Editing": "HOUSE",
-                                "Press": "PRESS"
-                            };
-                            
-                            stageChecks.forEach(check => {
-                                // Check for both the new exact match and possible legacy values
-                                if (stagesForDate.has(check.stage) || 
-                                    stagesForDate.has(Object.keys(stageCheckMap).find(
-                                        key => stageCheckMap[key as keyof typeof stageCheckMap] === check.stage
-                                    ) || "")) {
-                                    // Create dot for this stage
-                                    // Use the view's helper
-                                    this.debugLog(`Adding dot for stage ${check.stage}`);
-                                    
-                                    const revisionDot = dayCell.createDiv({
-                                        cls: `revision-dot ${check.cls}`
-                                    });
-                                    hasAddedRealDot = true;
-
-                                    // Add 'revised' class if it's a Stage Zero dot AND
-                                    // any completed Stage Zero note for this date has Revision > 0
-                                    if (check.stage === "ZERO") {
-                                        // Check both ZERO and Zero formats, and handle array format
-                                        const completedStageZeroNotes = notesByDate.get(dateKey)?.filter(note => {
-                                            // Check if the note is complete
-                                            const isComplete = isNoteComplete(note);
-                                            // Get the publish stage with legacy format support
-                                            let publishStage = note['Publish Stage'];
-                                            
-                                            // Handle array format
-                                            if (Array.isArray(publishStage)) {
-                                                publishStage = publishStage[0] || "";
-                                            }
-                                            
-                                            // Normalize to uppercase for checking
-                                            const normalizedStage = typeof publishStage === 'string' 
-                                                ? publishStage.toUpperCase() 
-                                                : "";
-                                            
-                                            // Check for ZERO stage
-                                            return isComplete && normalizedStage === "ZERO";
-                                        });
-                                        
-                                        // Check if any completed Stage Zero note has revision > 0
-                                        const hasRevisedStageZero = completedStageZeroNotes ? completedStageZeroNotes.some(note => 
-                                            note.Revision && note.Revision > 0
-                                        ) : false;
-                                        
-                                        // Add the 'revised' class if we found a revised Stage Zero note
-                                        if (hasRevisedStageZero) {
-                                            revisionDot.addClass('revised');
-                                        }
-                                    }
-                                }
-                            });
-                            
-                            // If we have both zero and non-zero revisions for Zero stage,
-                            // add a special split indicator
-                            if (hasZeroRevision && hasNonZeroRevision && 
-                                (stagesForDate.has("ZERO") || stagesForDate.has("Zero"))) {
-                                // Replace individual indicators with a split one
-                                // Find and remove any existing Zero stage indicators
-                                const existingZeroDots = dayCell.querySelectorAll('.revision-dot.stage-zero');
-                                existingZeroDots.forEach(dot => dot.remove());
-                                
-                                // Create a split indicator
-                                const splitDot = dayCell.createDiv({
-                                    cls: 'revision-dot split-revision'
-                                });
-                                hasAddedRealDot = true;
-                                
-                                // Create left part (Zero revision)
-                                const zeroPart = splitDot.createDiv({
-                                    cls: 'revision-part stage-zero'
-                                });
-                                
-                                // Create right part (revisions > 0)
-                                const nonZeroPart = splitDot.createDiv({
-                                    cls: 'revision-part has-revision-part'
-                                });
-                            }
-                        }
-                    }
-                    
-                    // Add click handler to open notes for this date
-                    dayCell.addEventListener('click', (event) => {
-                        // Use the stored date key from the dataset
-                        const cellDateKey = dayCell.dataset.date || dateKey;
-                        const notesForDate = notesByDate.get(cellDateKey) || [];
-
-                        if (notesForDate.length === 0) {
-                            return;
-                        }
+    // Collect the data for the visible scenes, plus per project data for the overlay dots
+    private updateCalendarData() {
+        const scenes = this.plugin.getVisibleScenes();
+        this.calendarData = this.collectCalendarData(scenes);
+        this.completedWeekStats = this.calendarData.weekStats;
+        this.goals = this.resolveGoals();
+        this.writtenByDay = this.plugin.settings.showWordsWritten
+            ? this.plugin.wordHistory.dailyTotals(path => this.isVisiblePath(path))
+            : new Map();
+        this.transitionsByDay = this.plugin.sceneHistory.transitionsByDay(path => this.isVisiblePath(path));
+        this.forecast = this.plugin.getForecast();
+        this.milestonesByDay.clear();
+        this.plugin.getVisibleMilestones().forEach(milestone => {
+            const list = this.milestonesByDay.get(milestone.date.key) ?? [];
+            list.push(milestone);
+            this.milestonesByDay.set(milestone.date.key, list);
+        });
+        this.projectData.clear();
+        if (this.plugin.isAllProjects()) {
+            this.plugin.projects.projects.forEach(project => {
+                this.projectData.set(project.id, this.collectCalendarData(scenes.filter(scene => scene.project === project.id)));
+            });
+        }
+    }
 
-                        // 1. Get open files
-                        const openLeaves = this.app.workspace.getLeavesOfType('markdown');
-                        const openFiles = new Map<string, WorkspaceLeaf>();
-                        openLeaves.forEach(leaf => {
-                            const viewState = leaf.getViewState();
-                            const filePath = viewState.state?.file;
-                            if (filePath && typeof filePath === 'string') {
-                                openFiles.set(filePath, leaf);
-                            }
-                        });
+    // How a day relates to the forecast: the projected finish, inside the optimistic to pessimistic range, or neither
+    private forecastMark(dateKey: string): 'finish' | 'range' | '' {
+        const forecast = this.forecast;
+        if (!forecast || !forecast.expected || forecast.remainingScenes === 0) return '';
+        if (forecast.expected.key === dateKey) return 'finish';
+        const date = LocalDate.fromKey(dateKey);
+        const from = forecast.optimistic ?? forecast.expected;
+        if (date && date.compare(from) >= 0 && (!forecast.pessimistic || date.compare(forecast.pessimistic) <= 0)) return 'range';
+        return '';
+    }
 
-                        // 2. Determine day type and define target notes
-                        const isOverdueDay = overdueDates.has(cellDateKey);
-                        const hasCompletedSceneOnDay = notesForDate.some(note => isNoteComplete(note));
-                        const isSplitDotDay = isOverdueDay && hasCompletedSceneOnDay;
-
-                        let targetNotes: DataviewPage[];
-                        if (isSplitDotDay) {
-                            this.debugLog(`Split dot day click: Targeting only overdue scenes for ${cellDateKey}`);
-                            targetNotes = notesForDate.filter(note => !isNoteComplete(note));
-                        } else {
-                            this.debugLog(`Normal day click: Targeting all scenes for ${cellDateKey}`);
-                            targetNotes = notesForDate;
-                        }
+    // Whether a note belongs to the project(s) shown in the calendar and passes the filter
+    private isVisiblePath(path: string): boolean {
+        const project = this.plugin.projects.projectFor(path);
+        if (!project) return false;
+        if (this.plugin.settings.activeProject !== ALL_PROJECTS && project.id !== this.plugin.settings.activeProject) return false;
+        if (!this.plugin.isFiltered()) return true;
+        const scene = this.plugin.sceneIndex.getScene(path);
+        return !!scene && matchesFilter(scene, this.plugin.settings.filter);
+    }
 
-                        this.debugLog(`Target Notes Partition for ${cellDateKey}:`, {
-                            totalTargets: targetNotes.length,
-                            openTargets: targetNotes.filter(n => openFiles.has(n.file.path)).map(n => n.file.path),
-                            closedTargets: targetNotes.filter(n => !openFiles.has(n.file.path)).map(n => n.file.path)
-                        });
+    // Net words written in the seven days from weekStart
+    private writtenInWeek(weekStart: LocalDate): number {
+        let total = 0;
+        for (let i = 0; i < 7; i++) {
+            total += this.writtenByDay.get(weekStart.addDays(i).key) ?? 0;
+        }
+        return total;
+    }
 
-                        // 4. Activate existing tab (if any)
-                        let didActivateTab = false;
-                        if (targetNotes.length > 0) {
-                            const firstOpenNotePath = targetNotes[0].file.path;
-                            const existingLeaf = openFiles.get(firstOpenNotePath);
-                            if (existingLeaf) {
-                                this.app.workspace.revealLeaf(existingLeaf);
-                                didActivateTab = true;
-                                this.debugLog(`Activated existing tab for ${firstOpenNotePath}`);
-                            }
-                        }
+    // Goals at each project's highest stage; the overlay adds up the projects' goals
+    private resolveGoals(): WritingGoals | null {
+        const projects = this.plugin.projects;
+        let goals: WritingGoals;
+        if (this.plugin.isAllProjects()) {
+            const scenes = this.plugin.getVisibleScenes();
+            goals = sumGoals(projects.projects.map(project => projects.goalsFor(
+                project.id,
+                this.computeStageSummary(scenes.filter(scene => scene.project === project.id), projects.pipeline(project.id)).highestStage
+            )));
+        } else {
+            const projectId = this.plugin.settings.activeProject === ALL_PROJECTS ? projects.first.id : this.plugin.settings.activeProject;
+            goals = projects.goalsFor(projectId, this.currentHighestStage);
+        }
+        return hasGoals(goals) ? goals : null;
+    }
 
-                        // 5. Open closed tabs
-                        const processedFiles = new Set<string>(); // Avoid accidental duplicates if logic errors
-                        targetNotes.forEach((note, index) => {
-                            const filePath = note.file.path;
-                            if (processedFiles.has(filePath)) return; // Safety check
-                            processedFiles.add(filePath);
-
-                            const file = this.app.vault.getAbstractFileByPath(filePath);
-                            if (file && file instanceof TFile) {
-                                const shouldActivate = !didActivateTab && index === 0;
-                                this.debugLog(`Opening closed note: ${filePath}, Activate: ${shouldActivate}`);
-                                this.app.workspace.openLinkText(
-                                    file.path,
-                                    "",
-                                    true, // Open in new tab
-                                    { active: shouldActivate } 
-                                );
-                            }
-                        });
-                    });
-                    
-                    // Add mouse enter/leave handlers for tooltip
-                    let tooltipElement: HTMLElement | null = null;
-                    
-                    dayCell.addEventListener('mouseenter', () => {
-                        // Use the stored date key from the dataset
-                        const cellDateKey = dayCell.dataset.date || dateKey;
-                        // Check if there are notes for this date
-                        const notesForDate = notesByDate.get(cellDateKey) || [];
-                        
-                        if (notesForDate.length === 0) {
-                            return;
-                        }
-                        
-                        // IMPORTANT: Create a proper clone of the date for this specific cell
-                        // This is critical - we must use the dateKey to create a new date object
-                        // to avoid using the wrong date (which might be advanced from the loop)
-                        // Add time part to ensure date is parsed correctly with local timezone
-                        const cellDate = new Date(`${cellDateKey}T12:00:00`);
-                        
-                        // Debug: log the tooltip creation with more detailed information
-                        // Use the view's helper
-                        this.debugLog(`Creating tooltip for ${cellDateKey}`, {
-                            dateKey: cellDateKey,
-                            date: cellDate.toDateString(),
-                            sceneCount: notesForDate.length,
-                            dateHasRevisionMap: revisionMap.has(cellDateKey),
-                            revisionsForDate: revisionMap.get(cellDateKey),
-                            weekNumber: this.getWeekNumber(cellDate)
-                        });
-                        
-                            // Create tooltip
-                            tooltipElement = document.createElement('div');
-                            tooltipElement.className = 'calendar-tooltip';
-                            
-                        // Create and populate tooltip content
-                            // Organize notes by category
-                            const overdueNotes = notesForDate.filter(page => 
-                                !page.Status || 
-                                (typeof page.Status === 'string' && page.Status !== 'Complete') ||
-                                (Array.isArray(page.Status) && !page.Status.includes('Complete'))
-                            );
-                            
-                            const completedNotes = notesForDate.filter(page => 
-                                page.Status && 
-                                ((typeof page.Status === 'string' && page.Status === 'Complete') ||
-                                (Array.isArray(page.Status) && page.Status.includes('Complete')))
-                            );
-                            
-                            // Add overdue section if there are overdue notes
-                            if (isOverdue && overdueNotes.length > 0) {
-                                const overdueSection = document.createElement('div');
-                                overdueSection.className = 'tooltip-section overdue-section';
-                                
-                                const overdueHeading = document.createElement('h4');
-                                overdueHeading.textContent = 'Overdue Scenes';
-                                overdueSection.appendChild(overdueHeading);
-                                
-                                const overdueList = document.createElement('ul');
-                                overdueNotes.forEach(note => {
-                                    const item = document.createElement('li');
-                                    item.classList.add('overdue'); // Add overdue class
-                                    item.textContent = note.file.path.split('/').pop()?.replace('.md', '') || '';
-                                    overdueList.appendChild(item);
-                                });
-                                
-                                overdueSection.appendChild(overdueList);
-                                tooltipElement.appendChild(overdueSection);
-                            }
-                            
-                            // Add completed notes section
-                            if (completedNotes.length > 0) {
-                                const completedSection = document.createElement('div');
-                                completedSection.className = 'tooltip-section completed-section';
-                                
-                                const completedHeading = document.createElement('h4');
-                                completedHeading.textContent = 'Completed Scenes';
-                                completedSection.appendChild(completedHeading);
-                                
-                                const completedList = document.createElement('ul');
-                                completedNotes.forEach(note => {
-                                    const item = document.createElement('li');
-                                    
-                                    // Get revision number, default to 0 if missing/invalid
-                                    const revision = typeof note.Revision === 'number' ? note.Revision : 0;
-                                    
-                                    // Add appropriate class based on publish stage
-                                    const publishStage = note["Publish Stage"] || "ZERO";
-                                    const stageClass = publishStage.toString().toUpperCase() === "ZERO" ? "stage-zero" :
-                                                     publishStage.toString().toUpperCase() === "AUTHOR" || publishStage === "First" ? "stage-author" :
-                                                     publishStage.toString().toUpperCase() === "HOUSE" || publishStage === "Editing" ? "stage-house" :
-                                                     "stage-press";
-                                    
-                                    item.classList.add(stageClass);
-                                    
-                                    // Set text content including revision number
-                                    const sceneName = note.file.path.split('/').pop()?.replace('.md', '') || '';
-                                    item.textContent = `${sceneName}[${revision}]`; // Add revision in brackets
-                                    
-                                    completedList.appendChild(item);
-                                });
-                                
-                                completedSection.appendChild(completedList);
-                                tooltipElement.appendChild(completedSection);
-                            }
-                            
-                            // Add future todos section
-                            if (isFutureTodo) {
-                                const futureSection = document.createElement('div');
-                                futureSection.className = 'tooltip-section future-section';
-                                
-                                const futureHeading = document.createElement('h4');
-                                futureHeading.textContent = 'Planned Scenes';
-                                futureSection.appendChild(futureHeading);
-                                
-                                const futureList = document.createElement('ul');
-                                notesForDate.filter(page => 
-                                    page.Status && 
-                                    ((typeof page.Status === 'string' && page.Status === 'Todo') ||
-                                    (Array.isArray(page.Status) && page.Status.includes('Todo')))
-                                ).forEach(note => {
-                                    const item = document.createElement('li');
-                                    item.classList.add('future-todo'); // Add future-todo class
-                                    item.textContent = note.file.path.split('/').pop()?.replace('.md', '') || '';
-                                    futureList.appendChild(item);
-                                });
-                                
-                                futureSection.appendChild(futureList);
-                                tooltipElement.appendChild(futureSection);
-                            }
+    // Summarize everything a day cell displays, so unchanged cells can be skipped
+    private daySignature(dateKey: string): string {
+        const data = this.calendarData;
+        if (!data) return '';
+        const field = this.plugin.getColorField();
+        const notes = (data.notesByDate.get(dateKey) ?? [])
+            .map(note => `${note.path}|${note.status.join(',')}|${note.publishStage}|${note.revision}|${field ? sceneColorValue(note, field) : ''}`)
+            .join(';');
+        return [
+            notes,
+            data.overdueDates.has(dateKey),
+            data.todoFutureDates.has(dateKey),
+            data.workingFutureDates.has(dateKey),
+            goalProgress(data.dayStats.get(dateKey), this.goals, 'daily')?.summary,
+            this.writtenByDay.get(dateKey),
+            this.transitionsByDay.get(dateKey)?.length,
+            this.plugin.icsOverlay.eventsOn(dateKey).map(event => `${event.time}|${event.summary}`).join(';'),
+            (this.milestonesByDay.get(dateKey) ?? []).map(milestone => milestone.name).join(';'),
+            this.forecastMark(dateKey)
+        ].join('#');
+    }
 
-                            // Add Future Working section
-                            // Filter for notes that are marked as future working and not overdue
-                            const futureWorkingNotes = notesForDate.filter(page => 
-                                workingFutureDates.has(dateKey) && 
-                                !overdueDates.has(dateKey) &&
-                                page.Status && 
-                                ((typeof page.Status === 'string' && page.Status === 'Working') ||
-                                (Array.isArray(page.Status) && page.Status.includes('Working')))
-                            );
+    private weekSignature(weekKey: string): string {
+        const stats = this.completedWeekStats.get(weekKey);
+        const written = this.plugin.settings.showWordsWritten ? this.writtenInWeek(this.cellDates.get(weekKey) ?? LocalDate.fromKey(weekKey)!) : 0;
+        return `${stats?.sceneCount ?? 0}|${stats?.wordCount ?? 0}|${this.currentHighestStage}|${goalProgress(stats, this.goals, 'weekly')?.summary}|${written}`;
+    }
 
-                            if (futureWorkingNotes.length > 0) {
-                                const workingSection = document.createElement('div');
-                                workingSection.className = 'tooltip-section working-section'; 
-                                const workingHeading = document.createElement('h4');
-                                workingHeading.textContent = 'Working On';
-                                // Styling is handled by CSS rule: .tooltip-section.working-section h4
-                                workingSection.appendChild(workingHeading);
-                                const workingList = document.createElement('ul');
-                                futureWorkingNotes.forEach(note => {
-                                    const item = document.createElement('li');
-                                    item.classList.add('working'); // Apply pink color class
-                                    item.textContent = note.file.path.split('/').pop()?.replace('.md', '') || '';
-                                    workingList.appendChild(item);
-                                });
-                                workingSection.appendChild(workingList);
-                                tooltipElement.appendChild(workingSection);
-                            }
-                            
-                        // Get cell position
-                            const cellRect = dayCell.getBoundingClientRect();
-                        
-                        // Create simplified tooltip container
-                        const tooltipContainer = document.createElement('div');
-                        tooltipContainer.className = 'tooltip-container';
-                        document.body.appendChild(tooltipContainer);
-                        
-                        // Add the actual tooltip directly to the container
-                        tooltipContainer.appendChild(tooltipElement);
-                        
-                        // Calculate dimensions and positions
-                        const centerX = cellRect.left + (cellRect.width / 2);
-                        const tooltipRect = tooltipElement.getBoundingClientRect();
-                        const tooltipWidth = tooltipRect.width;
-                        const tooltipHeight = tooltipRect.height;
-                        const windowWidth = window.innerWidth;
-                        const windowHeight = window.innerHeight;
-                        
-                        // Calculate the cell's horizontal position within the calendar
-                        const calendarRect = this.calendarTable.getBoundingClientRect();
-                        const calendarColumns = Array.from(this.calendarTable.querySelector('tr:first-child')?.querySelectorAll('th') || []);
-                        const dayIndex = Array.from(dayCell.parentElement?.children || []).indexOf(dayCell);
-                        const isLeftEdgeColumn = dayIndex <= 1; // First or second column (includes week number)
-                        const isRightEdgeColumn = dayIndex >= 5; // Last or second-to-last column
-                        
-                        // Safety margin
-                        const safetyMargin = 20;
-                        
-                        // Get the row index in the calendar (1-based)
-                        const calendarRows = this.calendarTable.querySelectorAll('tr');
-                        const rowElements = Array.from(calendarRows).slice(1); // Skip header row
-                        const rowIndex = rowElements.findIndex(row => row.contains(dayCell)) + 1;
-                        const totalRows = rowElements.length;
-                        
-                        // Determine if we're in the bottom two rows of the calendar
-                        const isInBottomTwoRows = rowIndex >= totalRows - 1;
-                        
-                        // For bottom two rows, show tooltip above; otherwise show below
-                        const showAbove = isInBottomTwoRows;
-                        
-                        // Apply vertical positioning
-                        if (showAbove) {
-                            tooltipContainer.classList.add('v-pos-above');
-                        } else {
-                            tooltipContainer.classList.add('v-pos-below');
-                        }
-                        
-                        // Edge detection based on both pixel calculation and column position
-                        // This ensures tooltips stay within the window
-                        const pixelBasedRightEdge = centerX + (tooltipWidth / 2) > windowWidth - safetyMargin;
-                        
-                        // For left edge, check against calendar left edge, not window
-                        const calendarLeftEdge = calendarRect.left;
-                        const pixelBasedLeftEdge = centerX - (tooltipWidth / 2) < calendarLeftEdge + safetyMargin;
-                        
-                        // Prefer column-based positioning first, fall back to pixel-based for edge cases
-                        const isNearRightEdge = isRightEdgeColumn || pixelBasedRightEdge;
-                        const isNearLeftEdge = isLeftEdgeColumn || pixelBasedLeftEdge;
-                        
-                        // Determine horizontal position
-                        let finalLeft = centerX;
-                        
-                        if (isNearRightEdge) {
-                            // Right-align tooltip (20px from right edge of window)
-                            finalLeft = windowWidth - safetyMargin;
-                            tooltipContainer.classList.add('right-aligned');
-                        } else if (isNearLeftEdge) {
-                            // Left-align tooltip (20px from left edge of calendar)
-                            finalLeft = calendarLeftEdge + safetyMargin;
-                            tooltipContainer.classList.add('left-aligned');
-                        }
-                        
-                        // Create positioning style
-                        const styleEl = document.createElement('style');
-                        const top = showAbove ? Math.round(cellRect.top) : Math.round(cellRect.bottom);
-                        
-                        styleEl.textContent = `
-                            .tooltip-container.pos-x-${Math.round(centerX)}.pos-y-${top} {
-                                left: ${finalLeft}px;
-                                top: ${top}px;
-                            }
-                        `;
-                        
-                        // Add classes for specific positioning
-                        tooltipContainer.classList.add(`pos-x-${Math.round(centerX)}`);
-                        tooltipContainer.classList.add(`pos-y-${top}`);
-                        
-                        // Add the style to the document
-                        document.head.appendChild(styleEl);
-                        
-                        // Store references without modifying HTMLElement
-                        const tooltipData = new WeakMap<HTMLElement, {
-                            container: HTMLElement;
-                            styleElement: HTMLElement;
-                        }>();
+    async renderCalendarBody() {
+        // Clear the previous grid
+        this.calendarBody.empty();
+
+        // **** Recalculate weekly stats along with the per-date data ****
+        this.updateCalendarData();
+        this.daySignatures.clear();
+        this.weekSignatures.clear();
+        this.cellDates.clear();
+        
+        const currentYear = this.currentDate.getFullYear();
+        const currentMonth = this.currentDate.getMonth() + 1;
+        
+        switch (this.plugin.settings.viewMode) {
+            case 'week':
+                this.renderWeekDetail(this.calendarBody);
+                break;
+            case 'quarter': {
+                // Three month grids for the calendar quarter, without the neighbouring days
+                const firstMonth = Math.floor((currentMonth - 1) / 3) * 3 + 1;
+                for (let i = 0; i < 3; i++) {
+                    this.calendarBody.createDiv({ cls: 'quarter-month-name', text: MONTH_NAMES[firstMonth + i - 1] });
+                    this.renderMonthGrid(this.calendarBody, currentYear, firstMonth + i, false);
+                }
+                break;
+            }
+            case 'year':
+                this.renderYearHeatmap(this.calendarBody, currentYear);
+                break;
+            default:
+                this.renderMonthGrid(this.calendarBody, currentYear, currentMonth, true);
+        }
+        
+        if (this.plugin.settings.viewMode === 'month' || this.plugin.settings.viewMode === 'quarter') {
+            this.renderLegend(this.calendarBody);
+        }
+    }
+
+    // Month grid with the week column. Days of the neighbouring months are shown dimmed or left blank.
+    private renderMonthGrid(parent: HTMLElement, year: number, month: number, showOtherMonths: boolean) {
+        const calendarTable = parent.createEl('table', { cls: 'manuscript-calendar' });
+        
+        // Create header row
+        const headerRow = calendarTable.createEl('tr');
+        
+        // Add the week number header with a separator
+        headerRow.createEl('th', { text: 'W', cls: 'week-number' });
+        
+        // Three letter day labels, starting on the configured first weekday
+        this.plugin.weekScheme.dayLabels().forEach(day => {
+            headerRow.createEl('th', { text: day });
+        });
+        
+        // Get first day of month
+        const firstDay = LocalDate.of(year, month, 1);
+        // Get last day of month
+        const lastDay = LocalDate.of(year, month + 1, 0);
+        
+        // Start on the first weekday before or on the first day of month
+        let currentDate = this.getWeekStart(firstDay);
+        
+        // Render whole weeks until we pass the last day of the month
+        while (currentDate.compare(lastDay) <= 0) {
+            // Create week row
+            const weekRow = calendarTable.createEl('tr');
+            weekRow.appendChild(this.renderWeekCell(currentDate));
+            
+            // Create day cells for each day of the week
+            for (let i = 0; i < 7; i++) {
+                if (showOtherMonths || currentDate.month === firstDay.month) {
+                    weekRow.appendChild(this.renderDayCell(currentDate, month));
+                } else {
+                    weekRow.createEl('td', { cls: 'other-month blank-day' });
+                }
+                
+                // Move to next day
+                currentDate = currentDate.addDays(1);
+            }
+        }
+    }
+
+    // Status of a scene as shown by the dots: complete, overdue, working or todo
+    private sceneState(scene: SceneRecord, today: LocalDate): string {
+        if (isSceneComplete(scene)) return 'complete';
+        if (scene.dueDate && scene.dueDate.compare(today) < 0 && scene.status.length > 0) return 'overdue';
+        if (sceneHasStatus(scene, 'Working')) return 'working';
+        return 'todo';
+    }
+
+    // One week as a list of days with the scene titles, status, stage and words
+    private renderWeekDetail(parent: HTMLElement) {
+        const data = this.calendarData!;
+        const today = LocalDate.today();
+        const weekStart = this.getWeekStart(LocalDate.fromDate(this.currentDate));
+        const weekStats = this.completedWeekStats.get(weekStart.key);
+        const weekNum = this.getWeekNumber(weekStart);
+        
+        const summary = parent.createDiv({ cls: 'week-detail-summary' });
+        summary.createSpan({ text: weekNum === null ? 'Week' : `Week ${weekNum}` });
+        if (weekStats && weekStats.sceneCount > 0) {
+            summary.createSpan({
+                cls: 'week-detail-stats',
+                text: `${weekStats.sceneCount} ${weekStats.sceneCount === 1 ? 'scene' : 'scenes'}, ${weekStats.wordCount.toLocaleString()} words`
+            });
+        }
+        if (this.plugin.settings.showWordsWritten) {
+            summary.createSpan({
+                cls: 'week-detail-stats',
+                text: `${this.writtenInWeek(weekStart).toLocaleString()} words written`
+            });
+        }
+        const weekGoal = goalProgress(weekStats, this.goals, 'weekly');
+        if (weekGoal) {
+            summary.createSpan({
+                cls: `week-detail-goal ${weekGoal.met ? 'goal-met' : 'goal-behind'}`,
+                text: `Goal: ${weekGoal.summary}`
+            });
+        }
+        
+        const list = parent.createDiv({ cls: 'week-detail' });
+        for (let i = 0; i < 7; i++) {
+            const date = weekStart.addDays(i);
+            const scenes = data.notesByDate.get(date.key) ?? [];
+            
+            const dayEl = list.createDiv({ cls: 'week-detail-day' });
+            dayEl.dataset.date = date.key;
+            if (date.equals(today)) {
+                dayEl.addClass('today');
+            }
+            if (goalProgress(data.dayStats.get(date.key), this.goals, 'daily')?.met) {
+                dayEl.addClass('goal-met-day');
+            }
+            
+            const label = dayEl.createDiv({ cls: 'week-detail-label' });
+            label.createSpan({ cls: 'week-detail-weekday', text: WEEKDAY_LABELS[date.dayOfWeek()] });
+            label.createSpan({ cls: 'week-detail-date', text: date.day.toString() });
+            const written = this.writtenByDay.get(date.key);
+            if (written) {
+                label.createSpan({
+                    cls: 'week-detail-written',
+                    text: formatWordsShort(written),
+                    attr: { 'aria-label': `${written.toLocaleString()} words written` }
+                });
+            }
+            
+            const sceneList = dayEl.createDiv({ cls: 'week-detail-scenes' });
+            scenes.forEach(scene => {
+                const pipeline = this.plugin.projects.pipeline(scene.project);
+                const item = sceneList.createDiv({
+                    cls: `week-detail-scene ${pipeline.stageClass(scene.publishStage)} scene-${this.sceneState(scene, today)}`
+                });
+                item.createSpan({ cls: 'week-detail-scene-name', text: scene.name });
+                const meta = [scene.status.join(', '), scene.publishStage];
+                if (scene.revision > 0) meta.push(`[${scene.revision}]`);
+                if (scene.words > 0) meta.push(`${scene.words.toLocaleString()} w`);
+                item.createSpan({ cls: 'week-detail-scene-meta', text: meta.filter(part => part).join(' · ') });
+                item.addEventListener('click', (event) => {
+                    event.stopPropagation();
+                    this.app.workspace.openLinkText(scene.path, '', false);
+                });
+            });
+            
+            if (scenes.length === 0) {
+                dayEl.addClass('empty-day');
+                dayEl.addEventListener('click', (event) => this.createSceneForDate(date, event));
+            }
+            this.enableDragAndDrop(dayEl, date);
+            this.addNewSceneMenu(dayEl, date);
+        }
+    }
+
+    // Twelve small month grids shaded by the words of scenes completed each day
+    private renderYearHeatmap(parent: HTMLElement, year: number) {
+        const data = this.calendarData!;
+        
+        // Words, scene count and the highest stage completed per day
+        const completedByDay = new Map<string, { words: number, scenes: number, stageClass: string }>();
+        data.notesByDate.forEach((notes, dateKey) => {
+            const completed = notes.filter(note => isSceneComplete(note));
+            if (completed.length === 0) return;
+            const top = completed.reduce((best, note) =>
+                this.plugin.projects.pipeline(note.project).rank(note.publishStage) >
+                this.plugin.projects.pipeline(best.project).rank(best.publishStage) ? note : best
+            );
+            completedByDay.set(dateKey, {
+                words: completed.reduce((sum, note) => sum + note.words, 0),
+                scenes: completed.length,
+                stageClass: this.plugin.projects.pipeline(top.project).stageClass(top.publishStage)
+            });
+        });
+        
+        // Words written mode shades by the word history instead of completed scenes
+        const showWritten = this.plugin.settings.showWordsWritten;
+        let maxWords = 0;
+        if (showWritten) {
+            this.writtenByDay.forEach((words, dateKey) => {
+                if (dateKey.startsWith(`${year}-`)) maxWords = Math.max(maxWords, words);
+            });
+        } else {
+            completedByDay.forEach((info, dateKey) => {
+                if (dateKey.startsWith(`${year}-`)) maxWords = Math.max(maxWords, info.words);
+            });
+        }
+        
+        const today = LocalDate.today();
+        const dayLabels = this.plugin.weekScheme.dayLabels();
+        const grid = parent.createDiv({ cls: 'year-heatmap' });
+        for (let month = 1; month <= 12; month++) {
+            const monthEl = grid.createDiv({ cls: 'heatmap-month' });
+            monthEl.createDiv({ cls: 'heatmap-month-name', text: MONTH_NAMES[month - 1] });
+            const days = monthEl.createDiv({ cls: 'heatmap-days' });
+            dayLabels.forEach(label => days.createDiv({ cls: 'heatmap-weekday', text: label.charAt(0) }));
+            
+            // Leave blanks before the first so columns line up with the weekdays
+            const first = LocalDate.of(year, month, 1);
+            const blanks = this.getWeekStart(first).daysUntil(first);
+            for (let i = 0; i < blanks; i++) {
+                days.createDiv({ cls: 'heatmap-day blank-day' });
+            }
+            
+            for (let date = first; date.month === month; date = date.addDays(1)) {
+                const dayEl = days.createDiv({ cls: 'heatmap-day' });
+                dayEl.dataset.date = date.key;
+                if (date.equals(today)) {
+                    dayEl.addClass('today');
+                }
+                
+                const info = completedByDay.get(date.key);
+                const written = this.writtenByDay.get(date.key) ?? 0;
+                if (showWritten) {
+                    if (written > 0) {
+                        const level = Math.max(1, Math.ceil((written / maxWords) * 4));
+                        dayEl.addClass(`heat-${level}`, 'heat-written');
+                        dayEl.setAttribute('aria-label', `${date.key}: ${written.toLocaleString()} words written`);
+                    }
+                } else if (info) {
+                    // Four shades relative to the busiest day of the year; any completed scene shows
+                    const level = maxWords > 0 ? Math.max(1, Math.ceil((info.words / maxWords) * 4)) : 1;
+                    dayEl.addClass(`heat-${level}`, info.stageClass);
+                    dayEl.setAttribute('aria-label', `${date.key}: ${info.scenes} ${info.scenes === 1 ? 'scene' : 'scenes'}, ${info.words.toLocaleString()} words`);
+                } else if (data.overdueDates.has(date.key)) {
+                    dayEl.addClass('heat-overdue');
+                    dayEl.setAttribute('aria-label', `${date.key}: overdue`);
+                }
+                
+                if (data.notesByDate.has(date.key)) {
+                    const dateKey = date.key;
+                    dayEl.addEventListener('click', () => this.openScenesForDate(dateKey));
+                }
+            }
+        }
+    }
+
+    /**
+     * Re-render only what changed after a scene index update: the header stage
+     * if the highest stage or its count moved, and the day and week cells whose
+     * data differs from the last render. Everything else stays in the DOM.
+     */
+    refreshChangedCells() {
+        if (!this.calendarBody || !this.calendarBody.isConnected) return;
+        
+        if (this.headerStageSignature() !== this.stageSignature) {
+            this.renderHeaderStage();
+        }
+        
+        // The week list and the heatmap are small enough to redraw whole
+        const mode = this.plugin.settings.viewMode;
+        if (mode === 'week' || mode === 'year') {
+            this.renderCalendarBody();
+            return;
+        }
+        
+        this.updateCalendarData();
+        
+        let replacedCells = 0;
+        this.calendarBody.querySelectorAll<HTMLTableCellElement>('td[data-date]').forEach(cell => {
+            const dateKey = cell.dataset.date!;
+            const cellDate = this.cellDates.get(dateKey);
+            if (cellDate && this.daySignatures.get(dateKey) !== this.daySignature(dateKey)) {
+                // Let any open tooltip clean itself up before the cell goes away
+                cell.dispatchEvent(new MouseEvent('mouseleave'));
+                cell.replaceWith(this.renderDayCell(cellDate, parseInt(cell.dataset.month ?? '0', 10)));
+                replacedCells++;
+            }
+        });
+        
+        this.calendarBody.querySelectorAll<HTMLTableCellElement>('td[data-week]').forEach(cell => {
+            const weekKey = cell.dataset.week!;
+            const weekStart = this.cellDates.get(weekKey);
+            if (weekStart && this.weekSignatures.get(weekKey) !== this.weekSignature(weekKey)) {
+                cell.replaceWith(this.renderWeekCell(weekStart));
+                replacedCells++;
+            }
+        });
+        
+        // Values may have come or gone, so the legend is redrawn in place
+        const legend = this.calendarBody.querySelector('.calendar-legend');
+        if (legend) {
+            legend.remove();
+            this.renderLegend(this.calendarBody);
+        }
+        
+        this.debugLog(`Updated ${replacedCells} changed cell(s)`);
+    }
+
+    // Create the week number cell (or weekly ratio) for the week starting on weekStart
+    private renderWeekCell(weekStart: LocalDate): HTMLTableCellElement {
+        // Add week number cell
+        const weekNum = this.getWeekNumber(weekStart);
+        const weekKey = weekStart.key;
+        const weekCell = document.createElement('td');
+        weekCell.addClass('week-number');
+        weekCell.dataset.week = weekKey;
+        this.cellDates.set(weekKey, weekStart);
+        this.weekSignatures.set(weekKey, this.weekSignature(weekKey));
+
+        // Get stats for this week
+        const weekStats = this.completedWeekStats.get(weekKey);
+        
+        // Always create the week number span, but maybe add a class later
+        const weekNumSpan = weekCell.createSpan({
+            cls: 'week-number-small',
+            text: weekNum === null ? '' : weekNum.toString()
+        });
+
+        // Words written mode shows the week's net words in place of the ratio
+        if (this.plugin.settings.showWordsWritten) {
+            const written = this.writtenInWeek(weekStart);
+            if (written !== 0) {
+                weekNumSpan.classList.add('hidden-week-number');
+                weekCell.addClass('has-words-written');
+                weekCell.createSpan({ cls: 'words-written-week', text: formatWordsShort(written) });
+                weekCell.setAttribute('aria-label', `${written.toLocaleString()} words written this week`);
+            }
+        } else if (weekStats && weekStats.sceneCount >= 1) {
+            // Add class to hide the week number span via CSS
+            weekNumSpan.classList.add('hidden-week-number');
+
+            // Add appropriate stage class first, so SVG inherits color (the overlay has no single stage)
+            if (this.currentHighestStage) {
+                weekCell.addClass(this.plugin.stagePipeline.stageClass(this.currentHighestStage));
+            }
+            
+            // Create SVG - ensuring proper params
+            // Use the view's helper
+            this.debugLog(`Creating SVG ratio for week ${weekNum} with stats:`, {
+                sceneCount: weekStats.sceneCount,
+                wordCount: weekStats.wordCount,
+                denominator: Math.floor(weekStats.wordCount / 100)
+            });
+            
+            // Create and append the SVG
+            const svg = createRatioSVG(weekStats.sceneCount, Math.floor(weekStats.wordCount / 100));
+            weekCell.appendChild(svg);
+        }
+        
+        // Progress against the weekly goal, for weeks that have started
+        const progress = goalProgress(weekStats, this.goals, 'weekly');
+        if (progress && weekStart.compare(LocalDate.today()) <= 0) {
+            weekCell.addClass(progress.met ? 'goal-met' : 'goal-behind');
+            weekCell.appendChild(createGoalBar(progress.fraction));
+            weekCell.setAttribute('aria-label', `Weekly goal: ${progress.summary}${progress.met ? ' (met)' : ''}`);
+        }
+        
+        return weekCell;
+    }
+
+    // Create a single day cell with its dots, click handler and tooltip
+    private renderDayCell(cellDate: LocalDate, month: number): HTMLTableCellElement {
+        const data = this.calendarData!;
+        const { revisionMap, todoFutureDates, workingFutureDates, overdueDates } = data;
+        const today = LocalDate.today();
+        const dateKey = cellDate.key;
+        const isCurrentMonth = cellDate.month === month;
+        const isToday = cellDate.equals(today);
+        
+        this.cellDates.set(dateKey, cellDate);
+        this.daySignatures.set(dateKey, this.daySignature(dateKey));
+        
+        // Create day cell with appropriate classes
+        const dayCell = document.createElement('td');
+        // Create a span for the date number
+        dayCell.createSpan({ text: cellDate.day.toString() });
+        
+        // Store the date with the cell for event handlers to use
+        dayCell.dataset.date = dateKey;
+        dayCell.dataset.month = String(month);
+        
+        // Add appropriate classes based on the date
+        if (!isCurrentMonth) {
+            dayCell.addClass('other-month');
+        }
+        
+        if (isToday) {
+            dayCell.addClass('today');
+        }
+        
+        // Mark days whose completed scenes reached the daily goal
+        if (goalProgress(data.dayStats.get(dateKey), this.goals, 'daily')?.met) {
+            dayCell.addClass('goal-met-day');
+        }
+
+        
+        // First add a real placeholder dot to maintain vertical spacing
+        // This will be shown or hidden later based on whether real dots are added
+        const placeholderDot = dayCell.createDiv({
+            cls: 'revision-dot placeholder-dot' 
+        });
+        
+        // Variable to track if we've added any real dots
+        let hasAddedRealDot = false;
+        
+        // Check if this date has scenes
+        const hasScenes = revisionMap.has(dateKey);
+        const isFutureTodo = todoFutureDates.has(dateKey);
+        const isFutureWorking = workingFutureDates.has(dateKey);
+        const isOverdue = overdueDates.has(dateKey);
+        
+        // Make the cell clickable if it has scenes or tasks
+        if (hasScenes || isFutureTodo || isFutureWorking || isOverdue) {
+            dayCell.addClass('clickable-cell');
+            
+            // Apply classes for future states
+            if (isFutureTodo) {
+                dayCell.addClass('future-todo');
+            }
+            if (isFutureWorking) {
+                dayCell.addClass('future-working'); // Add a class if needed for other styling
+            }
+            
+            // In the overlay each project draws its own dots, tinted with the project color
+            if (this.plugin.isAllProjects()) {
+                const overlay = dayCell.createDiv({ cls: 'project-overlay' });
+                this.projectData.forEach((projectData, projectId) => {
+                    if (!projectData.notesByDate.has(dateKey)) return;
+                    const projectDots = overlay.createDiv({ cls: `project-dots ${this.plugin.projects.projectClass(projectId)}` });
+                    if (this.renderDots(projectDots, dateKey, projectData, this.plugin.projects.pipeline(projectId))) {
+                        hasAddedRealDot = true;
+                    }
+                });
+            } else if (this.renderDots(dayCell, dateKey, data, this.plugin.stagePipeline)) {
+                hasAddedRealDot = true;
+            }
+            
+            // Add click handler to open notes for this date
+            dayCell.addEventListener('click', () => {
+                // Use the stored date key from the dataset
+                this.openScenesForDate(dayCell.dataset.date || dateKey);
+            });
+            
+            // Add mouse enter handler for tooltip
+            dayCell.addEventListener('mouseenter', () => {
+                // Use the stored date key from the dataset
+                this.showTooltip(dayCell, dayCell.dataset.date || dateKey);
+            });
+        }
+        
+        // Milestones fly a flag next to the day number
+        const hasMilestones = this.milestonesByDay.has(dateKey);
+        if (hasMilestones) {
+            dayCell.addClass('has-milestone');
+            setIcon(dayCell.createSpan({ cls: 'milestone-flag' }), 'flag');
+        }
+        
+        // The projected end of the stage, within its optimistic to pessimistic range
+        const forecastMark = this.forecastMark(dateKey);
+        if (forecastMark === 'finish') {
+            dayCell.addClass('forecast-finish');
+        } else if (forecastMark === 'range') {
+            dayCell.addClass('forecast-range');
+        }
+        
+        // Events from imported calendars get a flag; they are not scenes and change no counts
+        const hasEvents = this.plugin.icsOverlay.eventsOn(dateKey).length > 0;
+        if (hasEvents) {
+            dayCell.addClass('has-events');
+            dayCell.createDiv({ cls: 'event-marker' });
+        }
+        
+        // Days on which scenes changed stage, status or revision show the changes on hover
+        if (this.transitionsByDay.has(dateKey)) {
+            dayCell.addClass('has-transitions');
+        }
+        if (!dayCell.hasClass('clickable-cell') && (hasMilestones || hasEvents || forecastMark === 'finish' || this.transitionsByDay.has(dateKey))) {
+            dayCell.addEventListener('mouseenter', () => this.showTooltip(dayCell, dayCell.dataset.date || dateKey));
+        }
+        
+        // Words written that day, from the word history. Days with scenes list it in their tooltip.
+        const written = this.writtenByDay.get(dateKey);
+        if (written) {
+            dayCell.addClass(written > 0 ? 'has-words-written' : 'has-words-removed');
+            dayCell.createDiv({ cls: 'words-written', text: formatWordsShort(written) });
+            if (!dayCell.hasClass('clickable-cell') && !this.transitionsByDay.has(dateKey) && !hasEvents && !hasMilestones) {
+                dayCell.setAttribute('aria-label', `${written.toLocaleString()} words written`);
+            }
+        }
+        
+        this.enableDragAndDrop(dayCell, cellDate);
+        
+        // Empty days create a new scene when clicked; any day offers it in the context menu
+        if (!dayCell.hasClass('clickable-cell')) {
+            dayCell.addClass('empty-day');
+            dayCell.addEventListener('click', (event) => this.createSceneForDate(cellDate, event));
+        }
+        this.addNewSceneMenu(dayCell, cellDate);
+        
+        // If we've added any real dots, hide the placeholder
+        if (hasAddedRealDot) {
+            placeholderDot.addClass('hidden');
+        }
+        
+        return dayCell;
+    }
+
+    // One segment per value of the color field among the day's scenes, plus an overdue segment
+    private renderValueDots(container: HTMLElement, scenes: SceneRecord[], field: string, isOverdue: boolean): boolean {
+        if (scenes.length === 0) return false;
+        const colors = this.plugin.settings.colors;
+        const classes: string[] = [];
+        scenes.forEach(scene => {
+            const cls = valueClass(colors, field, sceneColorValue(scene, field));
+            if (!classes.includes(cls)) classes.push(cls);
+        });
+        const bar = container.createDiv({ cls: 'revision-dot split-revision value-dot' });
+        classes.forEach(cls => bar.createDiv({ cls: `revision-part value-part ${cls}` }));
+        if (isOverdue) {
+            bar.createDiv({ cls: 'revision-part overdue' });
+        }
+        return true;
+    }
+
+    // Color key under the grid, with the coloring mode switcher
+    private renderLegend(parent: HTMLElement) {
+        const legend = parent.createDiv({ cls: 'calendar-legend' });
+        const settings = this.plugin.settings;
+        
+        const modeDropdown = new DropdownComponent(legend.createDiv({ cls: 'legend-mode' }));
+        COLOR_MODES.forEach(({ mode, label }) => modeDropdown.addOption(mode, mode === 'field' && settings.colors.field.trim() ? settings.colors.field.trim() : label));
+        modeDropdown.selectEl.setAttribute('aria-label', 'Color dots by');
+        modeDropdown
+            .setValue(settings.colors.mode)
+            .onChange(value => this.plugin.setColorMode(value as ColorMode));
+        
+        const items = legend.createDiv({ cls: 'legend-items' });
+        const addItem = (cls: string, label: string) => {
+            const item = items.createSpan({ cls: 'legend-item' });
+            item.createSpan({ cls: `legend-swatch ${cls}` });
+            item.createSpan({ text: label });
+        };
+        
+        const field = this.plugin.getColorField();
+        if (!field) {
+            const pipeline = this.plugin.stagePipeline;
+            pipeline.stages.forEach(stage => addItem(`stage-dot ${pipeline.stageClass(stage.name)}`, stage.name));
+            addItem('working', 'Working');
+            addItem('future-todo-dot', 'Todo');
+            addItem('overdue', 'Overdue');
+            return;
+        }
+        
+        const scenes = this.plugin.getVisibleScenes();
+        const values = collectFieldValues(scenes, field).filter(value =>
+            scenes.some(scene => sceneColorValue(scene, field)?.toLowerCase() === value.toLowerCase()));
+        values.forEach(value => addItem(`value-part ${valueClass(settings.colors, field, value)}`, value));
+        if (scenes.some(scene => sceneColorValue(scene, field) === null)) {
+            addItem('value-part color-value-none', `No ${field}`);
+        }
+        addItem('overdue', 'Overdue');
+    }
+
+    // Draw the status and stage dots for one date into container. Returns whether any dot was added.
+    private renderDots(container: HTMLElement, dateKey: string, data: CalendarData, pipeline: StagePipeline): boolean {
+        const { revisionMap, notesByDate, todoFutureDates, workingFutureDates, overdueDates } = data;
+        const hasScenes = revisionMap.has(dateKey);
+        const isFutureTodo = todoFutureDates.has(dateKey);
+        const isFutureWorking = workingFutureDates.has(dateKey);
+        const isOverdue = overdueDates.has(dateKey);
+        let hasAddedDot = false;
+        
+        const field = this.plugin.getColorField();
+        if (field) {
+            return this.renderValueDots(container, notesByDate.get(dateKey) ?? [], field, isOverdue);
+        }
+        
+        // Overdue indicator takes priority visually
+        if (isOverdue) {
+            // Check if there's ALSO a completed scene for this day
+            const hasCompletedScene = notesByDate.get(dateKey)?.some(note => 
+                isSceneComplete(note) // Use helper function
+            );
+
+            if (hasCompletedScene) {
+                // *** Add Debugging Here ***
+                this.debugLog(`Creating SPLIT dot for ${dateKey}. isOverdue: ${isOverdue}, hasCompletedScene: ${hasCompletedScene}`);
+                // *** End Debugging ***
+                // Create SPLIT dot: Overdue + Completed Stage
+                hasAddedDot = true;
+                const splitDot = container.createDiv({ cls: 'revision-dot split-revision' });
+                
+                // Find the first completed scene to get its stage for the color
+                const completedNote = notesByDate.get(dateKey)?.find(note => 
+                    isSceneComplete(note) // Use helper function
+                );
+
+                const stageCls = pipeline.stageClass(completedNote ? completedNote.publishStage : pipeline.first.name);
+                
+                // First half: Completed scene stage color
+                splitDot.createDiv({ cls: `revision-part stage-dot ${stageCls}` });
+                // Second half: Overdue color
+                splitDot.createDiv({ cls: 'revision-part overdue' });
+
+            } else {
+                // *** Add Debugging Here ***
+                this.debugLog(`Creating REGULAR overdue dot for ${dateKey}. isOverdue: ${isOverdue}, hasCompletedScene: ${hasCompletedScene}`);
+                 // *** End Debugging ***
+               // Create REGULAR overdue dot (only overdue, no completed)
+                hasAddedDot = true;
+                container.createDiv({ cls: 'revision-dot overdue' });
+            }
+        }
+        // If not overdue, check for future Working status
+        else if (isFutureWorking) {
+            container.createDiv({ cls: 'revision-dot working' }); // Use pink dot
+            hasAddedDot = true;
+        }
+        // If not overdue or future, check for future Todo status
+        else if (isFutureTodo) {
+            container.createDiv({ cls: 'revision-dot future-todo-dot' }); // Use grey dot
+            hasAddedDot = true;
+        }
+        // If not overdue or future, show completed scene indicators
+        else if (hasScenes) {
+            const scenesForDate = revisionMap.get(dateKey);
+            
+            if (scenesForDate) {
+                // Track which publish stages we've seen for this date
+                const stagesForDate = new Set<string>();
+                let hasZeroRevision = false;
+                let hasNonZeroRevision = false;
+                
+                // Determine which stages are present
+                scenesForDate.forEach(scene => {
+                    stagesForDate.add(scene.publishStage);
+                    
+                    if (scene.revision === 0) {
+                        hasZeroRevision = true;
+                    } else {
+                        hasNonZeroRevision = true;
+                    }
+                });
+
+                const zeroStage = pipeline.first.name;
+                const zeroStageClass = pipeline.stageClass(zeroStage);
+                
+                // Debug log for stagesForDate
+                // Use the view's helper
+                this.debugLog(`Date ${dateKey} has stages:`, Array.from(stagesForDate));
+                
+                // One dot per stage present, in pipeline order
+                pipeline.stages.forEach(stage => {
+                    if (stagesForDate.has(stage.name)) {
+                        // Create dot for this stage
+                        // Use the view's helper
+                        this.debugLog(`Adding dot for stage ${stage.name}`);
                         
-                        tooltipData.set(tooltipElement, {
-                            container: tooltipContainer,
-                            styleElement: styleEl
+                        const revisionDot = container.createDiv({
+                            cls: `revision-dot stage-dot ${pipeline.stageClass(stage.name)}`
                         });
-                        
-                        dayCell.addEventListener('mouseleave', function cleanup() {
-                            if (tooltipElement) {
-                                const data = tooltipData.get(tooltipElement);
-                                if (data) {
-                                    // Remove container from DOM
-                                    data.container.remove();
-                                    
-                                    // Remove style element
-                                    data.styleElement.remove();
-                                    
-                                    // Clean up the weakmap
-                                    tooltipData.delete(tooltipElement);
-                                }
-                                
-                                tooltipElement = null;
-                                
-                                // Remove this specific handler
-                                dayCell.removeEventListener('mouseleave', cleanup);
+                        hasAddedDot = true;
+
+                        // Add 'revised' class if it's a zero-draft dot AND
+                        // any completed zero-draft note for this date has Revision > 0
+                        if (stage.name === zeroStage) {
+                            const completedStageZeroNotes = notesByDate.get(dateKey)?.filter(note => 
+                                isSceneComplete(note) && note.publishStage === zeroStage
+                            );
+                            
+                            // Check if any completed Stage Zero note has revision > 0
+                            const hasRevisedStageZero = completedStageZeroNotes ? completedStageZeroNotes.some(note => 
+                                note.revision > 0
+                            ) : false;
+                            
+                            // Add the 'revised' class if we found a revised Stage Zero note
+                            if (hasRevisedStageZero) {
+                                revisionDot.addClass('revised');
                             }
-                        });
+                        }
+                    }
+                });
+                
+                // If we have both zero and non-zero revisions for the zero-draft stage,
+                // add a special split indicator
+                if (hasZeroRevision && hasNonZeroRevision && stagesForDate.has(zeroStage)) {
+                    // Replace individual indicators with a split one
+                    // Find and remove any existing Zero stage indicators
+                    const existingZeroDots = container.querySelectorAll(`.revision-dot.${zeroStageClass}`);
+                    existingZeroDots.forEach(dot => dot.remove());
+                    
+                    // Create a split indicator
+                    const splitDot = container.createDiv({
+                        cls: 'revision-dot split-revision'
+                    });
+                    hasAddedDot = true;
+                    
+                    // Create left part (Zero revision)
+                    splitDot.createDiv({
+                        cls: `revision-part stage-dot ${zeroStageClass}`
+                    });
+                    
+                    // Create right part (revisions > 0)
+                    splitDot.createDiv({
+                        cls: 'revision-part has-revision-part'
                     });
                 }
-                
-                // If we've added any real dots, hide the placeholder
-                if (hasAddedRealDot) {
-                    placeholderDot.addClass('hidden');
+            }
+        }
+        
+        return hasAddedDot;
+    }
+
+    private addNewSceneMenu(el: HTMLElement, date: LocalDate) {
+        el.addEventListener('contextmenu', (event) => {
+            event.preventDefault();
+            const menu = new Menu();
+            menu.addItem(item => item
+                .setTitle(`New scene on ${date.key}`)
+                .setIcon('file-plus')
+                .onClick(() => this.createSceneForDate(date, event)));
+            
+            // Details and history of the scenes on this day
+            const scenes = this.calendarData?.notesByDate.get(date.key) ?? [];
+            if (scenes.length > 0) {
+                menu.addSeparator();
+                scenes.forEach(scene => menu.addItem(item => item
+                    .setTitle(`Details: ${scene.name}`)
+                    .setIcon('history')
+                    .onClick(() => new SceneDetailModal(this.app, this.plugin, scene).open())));
+            }
+            menu.showAtMouseEvent(event);
+        });
+    }
+
+    // Create a scene due on date. In the overlay a menu picks the project.
+    private createSceneForDate(date: LocalDate, event: MouseEvent) {
+        if (!this.plugin.isAllProjects()) {
+            this.plugin.sceneCreator.createScene(date, this.plugin.settings.activeProject);
+            return;
+        }
+        
+        const menu = new Menu();
+        this.plugin.projects.projects.forEach(project => {
+            menu.addItem(item => item
+                .setTitle(`New ${project.name} scene on ${date.key}`)
+                .setIcon('file-plus')
+                .onClick(() => this.plugin.sceneCreator.createScene(date, project.id)));
+        });
+        menu.showAtMouseEvent(event);
+    }
+
+    private isSceneDrag(event: DragEvent): boolean {
+        return !!this.draggedScenes && !!event.dataTransfer && Array.from(event.dataTransfer.types).includes(SCENE_DRAG_TYPE);
+    }
+
+    // Day cells with scenes can be dragged, and every day cell accepts dropped scenes
+    private enableDragAndDrop(dayCell: HTMLElement, cellDate: LocalDate) {
+        const dateKey = cellDate.key;
+        const scenes = this.calendarData?.notesByDate.get(dateKey) ?? [];
+        
+        if (scenes.length > 0) {
+            dayCell.draggable = true;
+            dayCell.addEventListener('dragstart', (event) => {
+                if (!event.dataTransfer) return;
+                this.draggedScenes = { from: dateKey, scenes };
+                event.dataTransfer.effectAllowed = 'move';
+                event.dataTransfer.setData(SCENE_DRAG_TYPE, dateKey);
+                event.dataTransfer.setData('text/plain', scenes.map(scene => scene.name).join('\n'));
+                // Close the tooltip while dragging
+                dayCell.dispatchEvent(new MouseEvent('mouseleave'));
+            });
+            dayCell.addEventListener('dragend', () => {
+                this.draggedScenes = null;
+            });
+        }
+        
+        dayCell.addEventListener('dragover', (event) => {
+            if (!this.isSceneDrag(event) || this.draggedScenes?.from === dateKey) return;
+            event.preventDefault();
+            event.dataTransfer!.dropEffect = 'move';
+            dayCell.addClass('drop-target');
+        });
+        
+        dayCell.addEventListener('dragleave', () => {
+            dayCell.removeClass('drop-target');
+        });
+        
+        dayCell.addEventListener('drop', (event) => {
+            dayCell.removeClass('drop-target');
+            if (!this.isSceneDrag(event)) return;
+            event.preventDefault();
+            const dragged = this.draggedScenes!;
+            this.draggedScenes = null;
+            if (dragged.from === dateKey) return;
+            this.dropScenes(dragged.scenes, cellDate, event);
+        });
+    }
+
+    // Move dropped scenes to a date. With several scenes a menu picks all or one of them.
+    private dropScenes(scenes: SceneRecord[], target: LocalDate, event: MouseEvent) {
+        const moveScenes = (selected: SceneRecord[]) => {
+            const message = selected.length === 1
+                ? `Moved ${selected[0].name} to ${target.key}`
+                : `Moved ${selected.length} scenes to ${target.key}`;
+            this.plugin.rescheduler.reschedule(selected.map(scene => ({ path: scene.path, to: target })), message);
+        };
+        
+        if (scenes.length === 1) {
+            moveScenes(scenes);
+            return;
+        }
+        
+        const menu = new Menu();
+        menu.addItem(item => item
+            .setTitle(`Move all ${scenes.length} scenes to ${target.key}`)
+            .setIcon('calendar')
+            .onClick(() => moveScenes(scenes)));
+        menu.addSeparator();
+        scenes.forEach(scene => {
+            menu.addItem(item => item
+                .setTitle(`Move ${scene.name}`)
+                .setIcon('file-text')
+                .onClick(() => moveScenes([scene])));
+        });
+        menu.showAtMouseEvent(event);
+    }
+
+    // While scenes are dragged over a month arrow, page to that month after a short pause
+    private enableDragPaging(button: HTMLElement, delta: number) {
+        let timer: number | null = null;
+        const cancel = () => {
+            if (timer !== null) {
+                window.clearTimeout(timer);
+                timer = null;
+            }
+            button.removeClass('drop-target');
+        };
+        
+        button.addEventListener('dragenter', (event) => {
+            if (!this.isSceneDrag(event)) return;
+            event.preventDefault();
+            button.addClass('drop-target');
+            if (timer === null) {
+                // The header is redrawn, so hovering the new arrow pages again
+                timer = window.setTimeout(() => {
+                    timer = null;
+                    this.navigate(delta);
+                }, 600);
+            }
+        });
+        button.addEventListener('dragover', (event) => {
+            if (this.isSceneDrag(event)) event.preventDefault();
+        });
+        button.addEventListener('dragleave', cancel);
+        button.addEventListener('drop', (event) => {
+            event.preventDefault();
+            cancel();
+        });
+    }
+
+    // Open (or focus) the scenes for a date. On split-dot days only the overdue scenes are opened.
+    private openScenesForDate(cellDateKey: string) {
+        const data = this.calendarData;
+        if (!data) return;
+        const notesForDate = data.notesByDate.get(cellDateKey) || [];
+
+        if (notesForDate.length === 0) {
+            return;
+        }
+
+        // 1. Get open files
+        const openLeaves = this.app.workspace.getLeavesOfType('markdown');
+        const openFiles = new Map<string, WorkspaceLeaf>();
+        openLeaves.forEach(leaf => {
+            const viewState = leaf.getViewState();
+            const filePath = viewState.state?.file;
+            if (filePath && typeof filePath === 'string') {
+                openFiles.set(filePath, leaf);
+            }
+        });
+
+        // 2. Determine day type and define target notes
+        const isOverdueDay = data.overdueDates.has(cellDateKey);
+        const hasCompletedSceneOnDay = notesForDate.some(note => isSceneComplete(note));
+        const isSplitDotDay = isOverdueDay && hasCompletedSceneOnDay;
+
+        let targetNotes: SceneRecord[];
+        if (isSplitDotDay) {
+            this.debugLog(`Split dot day click: Targeting only overdue scenes for ${cellDateKey}`);
+            targetNotes = notesForDate.filter(note => !isSceneComplete(note));
+        } else {
+            this.debugLog(`Normal day click: Targeting all scenes for ${cellDateKey}`);
+            targetNotes = notesForDate;
+        }
+
+        this.debugLog(`Target Notes Partition for ${cellDateKey}:`, {
+            totalTargets: targetNotes.length,
+            openTargets: targetNotes.filter(n => openFiles.has(n.path)).map(n => n.path),
+            closedTargets: targetNotes.filter(n => !openFiles.has(n.path)).map(n => n.path)
+        });
+
+        // 4. Activate existing tab (if any)
+        let didActivateTab = false;
+        if (targetNotes.length > 0) {
+            const firstOpenNotePath = targetNotes[0].path;
+            const existingLeaf = openFiles.get(firstOpenNotePath);
+            if (existingLeaf) {
+                this.app.workspace.revealLeaf(existingLeaf);
+                didActivateTab = true;
+                this.debugLog(`Activated existing tab for ${firstOpenNotePath}`);
+            }
+        }
+
+        // 5. Open closed tabs
+        const processedFiles = new Set<string>(); // Avoid accidental duplicates if logic errors
+        targetNotes.forEach((note, index) => {
+            const filePath = note.path;
+            if (processedFiles.has(filePath)) return; // Safety check
+            processedFiles.add(filePath);
+
+            const file = this.app.vault.getAbstractFileByPath(filePath);
+            if (file && file instanceof TFile) {
+                const shouldActivate = !didActivateTab && index === 0;
+                this.debugLog(`Opening closed note: ${filePath}, Activate: ${shouldActivate}`);
+                this.app.workspace.openLinkText(
+                    file.path,
+                    "",
+                    true, // Open in new tab
+                    { active: shouldActivate } 
+                );
+            }
+        });
+    }
+
+    // Show the hover tooltip listing the scenes for a date
+    private showTooltip(dayCell: HTMLElement, cellDateKey: string) {
+        let tooltipElement: HTMLElement | null = null;
+        const data = this.calendarData;
+        if (!data) return;
+        const { revisionMap, workingFutureDates, overdueDates } = data;
+        const isOverdue = overdueDates.has(cellDateKey);
+        const isFutureTodo = data.todoFutureDates.has(cellDateKey);
+        
+        // Check if there are notes or logged changes for this date
+        const notesForDate = data.notesByDate.get(cellDateKey) || [];
+        const transitionsForDate = this.transitionsByDay.get(cellDateKey) || [];
+        const eventsForDate = this.plugin.icsOverlay.eventsOn(cellDateKey);
+        const milestonesForDate = this.milestonesByDay.get(cellDateKey) || [];
+
+        const isForecastFinish = this.forecastMark(cellDateKey) === 'finish';
+
+        if (notesForDate.length === 0 && transitionsForDate.length === 0 && eventsForDate.length === 0 && milestonesForDate.length === 0 && !isForecastFinish) {
+            return;
+        }
+
+        // Rebuild the calendar day from the cell's key
+        const cellDate = LocalDate.fromKey(cellDateKey);
+
+        // Debug: log the tooltip creation with more detailed information
+        // Use the view's helper
+        this.debugLog(`Creating tooltip for ${cellDateKey}`, {
+            dateKey: cellDateKey,
+            sceneCount: notesForDate.length,
+            dateHasRevisionMap: revisionMap.has(cellDateKey),
+            revisionsForDate: revisionMap.get(cellDateKey),
+            weekNumber: cellDate ? this.getWeekNumber(cellDate) : null
+        });
+
+            // Create tooltip
+            tooltipElement = document.createElement('div');
+            tooltipElement.className = 'calendar-tooltip';
+
+            // Milestones come first, they are the big dates
+            if (milestonesForDate.length > 0) {
+                const milestoneSection = tooltipElement.createDiv({ cls: 'tooltip-section milestone-section' });
+                milestoneSection.createEl('h4', { text: milestonesForDate.length === 1 ? 'Milestone' : 'Milestones' });
+                const milestoneList = milestoneSection.createEl('ul');
+                milestonesForDate.forEach(milestone => {
+                    const project = this.plugin.isAllProjects() ? this.plugin.projects.get(milestone.project) : undefined;
+                    milestoneList.createEl('li', { text: project ? `${milestone.name} (${project.name})` : milestone.name });
+                });
+            }
+
+        // Create and populate tooltip content
+            // Organize notes by category
+            const overdueNotes = notesForDate.filter(page => !isSceneComplete(page));
+
+            const completedNotes = notesForDate.filter(page => isSceneComplete(page));
+
+            // Add overdue section if there are overdue notes
+            if (isOverdue && overdueNotes.length > 0) {
+                const overdueSection = document.createElement('div');
+                overdueSection.className = 'tooltip-section overdue-section';
+
+                const overdueHeading = document.createElement('h4');
+                overdueHeading.textContent = 'Overdue Scenes';
+                overdueSection.appendChild(overdueHeading);
+
+                const overdueList = document.createElement('ul');
+                overdueNotes.forEach(note => {
+                    const item = document.createElement('li');
+                    item.classList.add('overdue'); // Add overdue class
+                    item.textContent = note.name;
+                    overdueList.appendChild(item);
+                });
+
+                overdueSection.appendChild(overdueList);
+                tooltipElement.appendChild(overdueSection);
+            }
+
+            // Add completed notes section
+            if (completedNotes.length > 0) {
+                const completedSection = document.createElement('div');
+                completedSection.className = 'tooltip-section completed-section';
+
+                const completedHeading = document.createElement('h4');
+                completedHeading.textContent = 'Completed Scenes';
+                completedSection.appendChild(completedHeading);
+
+                const completedList = document.createElement('ul');
+                completedNotes.forEach(note => {
+                    const item = document.createElement('li');
+
+                    // Add appropriate class based on publish stage
+                    item.classList.add(this.plugin.projects.pipeline(note.project).stageClass(note.publishStage));
+
+                    // Set text content including revision number
+                    item.textContent = `${note.name}[${note.revision}]`; // Add revision in brackets
+
+                    // The last few logged transitions of the scene
+                    const timeline = this.plugin.sceneHistory.transitionsFor(note.path);
+                    if (timeline.length > 0) {
+                        item.createDiv({ cls: 'tooltip-timeline', text: formatTimeline(timeline.slice(-3)) });
+                    }
+
+                    completedList.appendChild(item);
+                });
+
+                completedSection.appendChild(completedList);
+                tooltipElement.appendChild(completedSection);
+            }
+
+            // Add future todos section
+            if (isFutureTodo) {
+                const futureSection = document.createElement('div');
+                futureSection.className = 'tooltip-section future-section';
+
+                const futureHeading = document.createElement('h4');
+                futureHeading.textContent = 'Planned Scenes';
+                futureSection.appendChild(futureHeading);
+
+                const futureList = document.createElement('ul');
+                notesForDate.filter(page => sceneHasStatus(page, 'Todo')).forEach(note => {
+                    const item = document.createElement('li');
+                    item.classList.add('future-todo'); // Add future-todo class
+                    item.textContent = note.name;
+                    futureList.appendChild(item);
+                });
+
+                futureSection.appendChild(futureList);
+                tooltipElement.appendChild(futureSection);
+            }
+
+            // Add Future Working section
+            // Filter for notes that are marked as future working and not overdue
+            const futureWorkingNotes = notesForDate.filter(page => 
+                workingFutureDates.has(cellDateKey) && 
+                !overdueDates.has(cellDateKey) &&
+                sceneHasStatus(page, 'Working')
+            );
+
+            if (futureWorkingNotes.length > 0) {
+                const workingSection = document.createElement('div');
+                workingSection.className = 'tooltip-section working-section'; 
+                const workingHeading = document.createElement('h4');
+                workingHeading.textContent = 'Working On';
+                // Styling is handled by CSS rule: .tooltip-section.working-section h4
+                workingSection.appendChild(workingHeading);
+                const workingList = document.createElement('ul');
+                futureWorkingNotes.forEach(note => {
+                    const item = document.createElement('li');
+                    item.classList.add('working'); // Apply pink color class
+                    item.textContent = note.name;
+                    workingList.appendChild(item);
+                });
+                workingSection.appendChild(workingList);
+                tooltipElement.appendChild(workingSection);
+            }
+
+            if (isForecastFinish && this.forecast) {
+                const forecastSection = tooltipElement.createDiv({ cls: 'tooltip-section forecast-section' });
+                forecastSection.createEl('h4', { text: `Projected end of ${this.forecast.stage}` });
+                forecastSection.createDiv({
+                    text: `${formatForecastDate(this.forecast.optimistic)} to ${formatForecastDate(this.forecast.pessimistic)} at ${this.forecast.scenesPerWeek.toFixed(1)} scenes a week`
+                });
+            }
+
+            // Events from imported calendars, all-day events first
+            if (eventsForDate.length > 0) {
+                const eventSection = tooltipElement.createDiv({ cls: 'tooltip-section event-section' });
+                eventSection.createEl('h4', { text: 'Events' });
+                const eventList = eventSection.createEl('ul');
+                eventsForDate.forEach(event => {
+                    const item = eventList.createEl('li');
+                    item.createSpan({ cls: 'event-time', text: event.time ?? 'All day' });
+                    item.createSpan({ text: ` ${event.summary}` });
+                });
+            }
+
+            // Stage, status and revision changes logged on this day
+            if (transitionsForDate.length > 0) {
+                const historySection = tooltipElement.createDiv({ cls: 'tooltip-section history-section' });
+                historySection.createEl('h4', { text: 'Changes' });
+                const historyList = historySection.createEl('ul');
+                transitionsForDate.forEach(({ path, transition }) => {
+                    const scene = this.plugin.sceneIndex.getScene(path);
+                    const name = scene?.name ?? path.split('/').pop()?.replace(/\.md$/, '') ?? path;
+                    const pipeline = this.plugin.projects.pipeline(scene?.project);
+                    historyList.createEl('li', {
+                        cls: pipeline.stageClass(transition.stage),
+                        text: `${name} → ${describeTransition(transition)}`
+                    });
+                });
+            }
+
+            const writtenOnDay = this.writtenByDay.get(cellDateKey);
+            if (writtenOnDay) {
+                const writtenSection = tooltipElement.createDiv({ cls: 'tooltip-section written-section' });
+                writtenSection.createEl('h4', { text: `Words written: ${writtenOnDay.toLocaleString()}` });
+            }
+
+            // Daily and weekly goal attainment for days that have already come
+            const dayGoal = goalProgress(data.dayStats.get(cellDateKey), this.goals, 'daily');
+            const weekGoal = cellDate && cellDate.compare(LocalDate.today()) <= 0
+                ? goalProgress(this.completedWeekStats.get(this.getWeekStart(cellDate).key), this.goals, 'weekly')
+                : null;
+            if (cellDate && cellDate.compare(LocalDate.today()) <= 0 && (dayGoal || weekGoal)) {
+                const goalSection = tooltipElement.createDiv({ cls: 'tooltip-section goal-section' });
+                goalSection.createEl('h4', { text: 'Goals' });
+                const goalList = goalSection.createEl('ul');
+                if (dayGoal) {
+                    goalList.createEl('li', { cls: dayGoal.met ? 'goal-met' : 'goal-behind', text: `Day: ${dayGoal.summary}` });
+                }
+                if (weekGoal) {
+                    goalList.createEl('li', { cls: weekGoal.met ? 'goal-met' : 'goal-behind', text: `Week: ${weekGoal.summary}` });
                 }
-                
-                // Move to next day
-                currentDate.setDate(currentDate.getDate() + 1);
             }
+
+        // Get cell position
+            const cellRect = dayCell.getBoundingClientRect();
+
+        // Create simplified tooltip container
+        const tooltipContainer = document.createElement('div');
+        tooltipContainer.className = 'tooltip-container';
+        document.body.appendChild(tooltipContainer);
+
+        // Add the actual tooltip directly to the container
+        tooltipContainer.appendChild(tooltipElement);
+
+        // Calculate dimensions and positions
+        const centerX = cellRect.left + (cellRect.width / 2);
+        const tooltipRect = tooltipElement.getBoundingClientRect();
+        const tooltipWidth = tooltipRect.width;
+        const tooltipHeight = tooltipRect.height;
+        const windowWidth = window.innerWidth;
+        const windowHeight = window.innerHeight;
+
+        // Calculate the cell's horizontal position within the calendar
+        // Position against the month grid holding the cell
+        const calendarTable = dayCell.closest('table') ?? this.calendarBody;
+        const calendarRect = calendarTable.getBoundingClientRect();
+        const dayIndex = Array.from(dayCell.parentElement?.children || []).indexOf(dayCell);
+        const isLeftEdgeColumn = dayIndex <= 1; // First or second column (includes week number)
+        const isRightEdgeColumn = dayIndex >= 5; // Last or second-to-last column
+
+        // Safety margin
+        const safetyMargin = 20;
+
+        // Get the row index in the calendar (1-based)
+        const calendarRows = calendarTable.querySelectorAll('tr');
+        const rowElements = Array.from(calendarRows).slice(1); // Skip header row
+        const rowIndex = rowElements.findIndex(row => row.contains(dayCell)) + 1;
+        const totalRows = rowElements.length;
+
+        // Determine if we're in the bottom two rows of the calendar
+        const isInBottomTwoRows = rowIndex >= totalRows - 1;
+
+        // For bottom two rows, show tooltip above; otherwise show below
+        const showAbove = isInBottomTwoRows;
+
+        // Apply vertical positioning
+        if (showAbove) {
+            tooltipContainer.classList.add('v-pos-above');
+        } else {
+            tooltipContainer.classList.add('v-pos-below');
+        }
+
+        // Edge detection based on both pixel calculation and column position
+        // This ensures tooltips stay within the window
+        const pixelBasedRightEdge = centerX + (tooltipWidth / 2) > windowWidth - safetyMargin;
+
+        // For left edge, check against calendar left edge, not window
+        const calendarLeftEdge = calendarRect.left;
+        const pixelBasedLeftEdge = centerX - (tooltipWidth / 2) < calendarLeftEdge + safetyMargin;
+
+        // Prefer column-based positioning first, fall back to pixel-based for edge cases
+        const isNearRightEdge = isRightEdgeColumn || pixelBasedRightEdge;
+        const isNearLeftEdge = isLeftEdgeColumn || pixelBasedLeftEdge;
+
+        // Determine horizontal position
+        let finalLeft = centerX;
+
+        if (isNearRightEdge) {
+            // Right-align tooltip (20px from right edge of window)
+            finalLeft = windowWidth - safetyMargin;
+            tooltipContainer.classList.add('right-aligned');
+        } else if (isNearLeftEdge) {
+            // Left-align tooltip (20px from left edge of calendar)
+            finalLeft = calendarLeftEdge + safetyMargin;
+            tooltipContainer.classList.add('left-aligned');
         }
+
+        // Create positioning style
+        const styleEl = document.createElement('style');
+        const top = showAbove ? Math.round(cellRect.top) : Math.round(cellRect.bottom);
+
+        styleEl.textContent = `
+            .tooltip-container.pos-x-${Math.round(centerX)}.pos-y-${top} {
+                left: ${finalLeft}px;
+                top: ${top}px;
+            }
+        `;
+
+        // Add classes for specific positioning
+        tooltipContainer.classList.add(`pos-x-${Math.round(centerX)}`);
+        tooltipContainer.classList.add(`pos-y-${top}`);
+
+        // Add the style to the document
+        document.head.appendChild(styleEl);
+
+        // Store references without modifying HTMLElement
+        const tooltipData = new WeakMap<HTMLElement, {
+            container: HTMLElement;
+            styleElement: HTMLElement;
+        }>();
+
+        tooltipData.set(tooltipElement, {
+            container: tooltipContainer,
+            styleElement: styleEl
+        });
+
+        dayCell.addEventListener('mouseleave', function cleanup() {
+            if (tooltipElement) {
+                const data = tooltipData.get(tooltipElement);
+                if (data) {
+                    // Remove container from DOM
+                    data.container.remove();
+
+                    // Remove style element
+                    data.styleElement.remove();
+
+                    // Clean up the weakmap
+                    tooltipData.delete(tooltipElement);
+                }
+
+                tooltipElement = null;
+
+                // Remove this specific handler
+                dayCell.removeEventListener('mouseleave', cleanup);
+            }
+        });
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,181 @@
+import { ItemView, Menu, Notice, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { SceneRecord, findFrontmatterKey, isSceneComplete, sceneHasStatus } from './sceneIndex';
+
+export const VIEW_TYPE_MANUSCRIPT_AGENDA = 'manuscript-agenda-view';
+
+interface AgendaGroup {
+    title: string;
+    cls: string;
+    scenes: SceneRecord[];
+}
+
+// Postpone choices offered on each agenda row
+const POSTPONE_OPTIONS: Array<{ title: string, days: number }> = [
+    { title: 'Tomorrow', days: 1 },
+    { title: 'In 3 days', days: 3 },
+    { title: 'Next week', days: 7 }
+];
+
+/**
+ * Companion list to the calendar: the scenes still to write, grouped as
+ * Overdue / Today / This week / Later, with actions to complete or postpone them.
+ */
+export class AgendaView extends ItemView {
+    plugin: ManuscriptCalendarPlugin;
+
+    constructor(leaf: WorkspaceLeaf, plugin: ManuscriptCalendarPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_MANUSCRIPT_AGENDA;
+    }
+
+    getDisplayText(): string {
+        return "Manuscript Agenda";
+    }
+
+    getIcon(): string {
+        return "list-todo";
+    }
+
+    async onOpen(): Promise<void> {
+        this.render();
+    }
+
+    async onClose(): Promise<void> {
+        return;
+    }
+
+    // Sort the open scenes of the visible project into the agenda groups
+    private buildGroups(): AgendaGroup[] {
+        const today = LocalDate.today();
+        const weekEnd = this.plugin.weekScheme.startOf(today).addDays(6);
+        const groups: AgendaGroup[] = [
+            { title: 'Overdue', cls: 'agenda-overdue', scenes: [] },
+            { title: 'Today', cls: 'agenda-today', scenes: [] },
+            { title: 'This week', cls: 'agenda-this-week', scenes: [] },
+            { title: 'Later', cls: 'agenda-later', scenes: [] }
+        ];
+
+        this.plugin.getVisibleScenes()
+            .filter(scene => scene.dueDate && !isSceneComplete(scene))
+            .sort((a, b) => a.dueDate!.compare(b.dueDate!) || a.name.localeCompare(b.name))
+            .forEach(scene => {
+                const due = scene.dueDate!;
+                if (due.compare(today) < 0) {
+                    // Same rule as the calendar: only scenes with a status can be overdue
+                    if (scene.status.length > 0) groups[0].scenes.push(scene);
+                } else if (due.equals(today)) {
+                    groups[1].scenes.push(scene);
+                } else if (due.compare(weekEnd) <= 0) {
+                    groups[2].scenes.push(scene);
+                } else {
+                    groups[3].scenes.push(scene);
+                }
+            });
+
+        return groups;
+    }
+
+    render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('manuscript-agenda');
+
+        const groups = this.buildGroups();
+        if (groups.every(group => group.scenes.length === 0)) {
+            container.createDiv({ cls: 'agenda-empty', text: 'No open scenes with a due date.' });
+            return;
+        }
+
+        const today = LocalDate.today();
+        groups.forEach(group => {
+            if (group.scenes.length === 0) return;
+            const section = container.createDiv({ cls: `agenda-group ${group.cls}` });
+            section.createEl('h4', { text: `${group.title} (${group.scenes.length})` });
+            group.scenes.forEach(scene => this.renderRow(section, scene, today));
+        });
+    }
+
+    private renderRow(parent: HTMLElement, scene: SceneRecord, today: LocalDate) {
+        const pipeline = this.plugin.projects.pipeline(scene.project);
+        const row = parent.createDiv({ cls: `agenda-row ${pipeline.stageClass(scene.publishStage)}` });
+        if (sceneHasStatus(scene, 'Working')) {
+            row.addClass('agenda-working');
+        }
+
+        const main = row.createDiv({ cls: 'agenda-row-main' });
+        const title = main.createEl('a', { cls: 'agenda-scene-name', text: scene.name, href: '#' });
+        title.addEventListener('click', (event) => {
+            event.preventDefault();
+            this.app.workspace.openLinkText(scene.path, '', false);
+        });
+
+        // Status, due date (outside today), stage, revision and words
+        const details: string[] = [];
+        if (scene.status.length > 0) details.push(scene.status.join(', '));
+        if (!scene.dueDate!.equals(today)) details.push(scene.dueDate!.key);
+        details.push(scene.publishStage);
+        if (scene.revision > 0) details.push(`[${scene.revision}]`);
+        if (scene.words > 0) details.push(`${scene.words.toLocaleString()} words`);
+        main.createDiv({ cls: 'agenda-scene-details', text: details.join(' · ') });
+
+        const actions = row.createDiv({ cls: 'agenda-row-actions' });
+
+        const completeButton = actions.createSpan({
+            cls: 'agenda-action clickable-icon',
+            attr: { role: 'button', tabindex: '0', 'aria-label': 'Mark complete' }
+        });
+        setIcon(completeButton, 'check');
+        completeButton.addEventListener('click', () => this.markComplete(scene));
+
+        const postponeButton = actions.createSpan({
+            cls: 'agenda-action clickable-icon',
+            attr: { role: 'button', tabindex: '0', 'aria-label': 'Postpone' }
+        });
+        setIcon(postponeButton, 'calendar-clock');
+        postponeButton.addEventListener('click', (event) => this.showPostponeMenu(scene, event));
+    }
+
+    // Postponing counts from today for overdue scenes, from the due date otherwise
+    private showPostponeMenu(scene: SceneRecord, event: MouseEvent) {
+        const today = LocalDate.today();
+        const from = scene.dueDate && scene.dueDate.compare(today) > 0 ? scene.dueDate : today;
+        const menu = new Menu();
+        POSTPONE_OPTIONS.forEach(option => {
+            const target = from.addDays(option.days);
+            menu.addItem(item => item
+                .setTitle(`${option.title} (${target.key})`)
+                .setIcon('calendar-clock')
+                .onClick(() => this.plugin.rescheduler.reschedule([{ path: scene.path, to: target }],
+                    `Postponed ${scene.name} to ${target.key}`)));
+        });
+        menu.showAtMouseEvent(event);
+    }
+
+    // Set the mapped status field to Complete; a status list keeps its other values
+    private async markComplete(scene: SceneRecord) {
+        const file = this.app.vault.getAbstractFileByPath(scene.path);
+        if (!(file instanceof TFile)) return;
+        const statusField = this.plugin.settings.fieldMapping.statusField;
+        try {
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                const key = findFrontmatterKey(frontmatter, statusField);
+                const current = frontmatter[key];
+                if (Array.isArray(current)) {
+                    const kept = current.filter(value => !/^(todo|working)$/i.test(String(value).trim()));
+                    frontmatter[key] = [...kept, 'Complete'];
+                } else {
+                    frontmatter[key] = 'Complete';
+                }
+            });
+            new Notice(`Marked ${scene.name} complete.`);
+        } catch (error) {
+            console.error(`Error marking ${scene.path} complete:`, error);
+        }
+    }
+}
@@ -0,0 +1,141 @@
+import { EventRef, Events } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate, parseLocalDate } from './dates';
+import { buildProgressReport } from './progressReport';
+import { SceneRecord } from './sceneIndex';
+
+// A day as YYYY-MM-DD, a Date or a LocalDate
+export type DateInput = string | Date | LocalDate;
+
+export interface SceneQuery {
+    // Inclusive due date bounds; scenes without a due date only match an unbounded query
+    from?: DateInput;
+    to?: DateInput;
+    // Project id; defaults to every project
+    project?: string;
+}
+
+// Progress of one calendar week, as the week column counts it
+export interface WeekStatsSummary {
+    weekStart: LocalDate;
+    weekEnd: LocalDate;
+    weekNumber: number | null;
+    // Completed scenes due in the week, up to today
+    scenesCompleted: number;
+    words: number;
+    // Completed scenes per publish stage
+    stages: Record<string, number>;
+    // Open scenes due in the week before today
+    overdue: number;
+}
+
+export type IndexChangedCallback = (changedPaths: string[] | null) => void;
+
+/**
+ * Typed access to the calendar's scene model for other plugins and scripts,
+ * available as `app.plugins.plugins['manuscript-calendar'].api`. Scenes come
+ * from the same index as the calendar, so Class, Status, Due and stage
+ * parsing follow the plugin settings.
+ */
+export class ManuscriptCalendarApi extends Events {
+    private plugin: ManuscriptCalendarPlugin;
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        super();
+        this.plugin = plugin;
+    }
+
+    // Scenes sorted by due date (undated last), then path
+    getScenes(range: SceneQuery = {}): SceneRecord[] {
+        const from = range.from !== undefined ? this.toDate(range.from, 'from') : null;
+        const to = range.to !== undefined ? this.toDate(range.to, 'to') : null;
+        return this.plugin.sceneIndex.getScenes()
+            .filter(scene => !range.project || scene.project === range.project)
+            .filter(scene => {
+                if (!from && !to) return true;
+                if (!scene.dueDate) return false;
+                return (!from || scene.dueDate.compare(from) >= 0) && (!to || scene.dueDate.compare(to) <= 0);
+            })
+            .sort((a, b) => {
+                if (a.dueDate && b.dueDate) return a.dueDate.compare(b.dueDate) || a.path.localeCompare(b.path);
+                if (a.dueDate || b.dueDate) return a.dueDate ? -1 : 1;
+                return a.path.localeCompare(b.path);
+            })
+            // Copies, so callers can't change the index
+            .map(scene => ({ ...scene, status: [...scene.status], fields: { ...scene.fields } }));
+    }
+
+    getScene(path: string): SceneRecord | null {
+        const scene = this.plugin.sceneIndex.getScene(path);
+        return scene ? { ...scene, status: [...scene.status], fields: { ...scene.fields } } : null;
+    }
+
+    // Stats of the week containing the given day, for one project or every project
+    getWeekStats(week: DateInput, project?: string): WeekStatsSummary {
+        const weekScheme = this.plugin.weekScheme;
+        const weekStart = weekScheme.startOf(this.toDate(week, 'week'));
+        const weekEnd = weekStart.addDays(6);
+        const report = buildProgressReport(
+            this.getScenes({ project }),
+            this.stageNames(project),
+            weekScheme,
+            weekStart,
+            weekEnd,
+            'week',
+            LocalDate.today()
+        );
+        const row = report.rows[0];
+        return {
+            weekStart,
+            weekEnd,
+            weekNumber: weekScheme.weekNumber(weekStart),
+            scenesCompleted: row.scenesCompleted,
+            words: row.words,
+            stages: row.stages,
+            overdue: row.overdue
+        };
+    }
+
+    // Highest publish stage reached by any scene of the project (the shown project by default)
+    getHighestStage(project?: string): string {
+        const projectId = project ?? this.defaultProject();
+        const pipeline = this.plugin.projects.pipeline(projectId);
+        return pipeline.highest(this.getScenes({ project: projectId }).map(scene => scene.publishStage)).name;
+    }
+
+    // Move a scene to a new due date. Returns false when the path is not a scene or the write failed.
+    async reschedule(path: string, date: DateInput): Promise<boolean> {
+        if (!this.plugin.sceneIndex.getScene(path)) return false;
+        const moved = await this.plugin.rescheduler.reschedule([{ path, to: this.toDate(date, 'date') }]);
+        return moved > 0;
+    }
+
+    /**
+     * 'index-changed' fires after scenes were added, edited, renamed or
+     * removed, with the changed paths, or null after a full rebuild, such as
+     * after the settings changed.
+     */
+    on(name: 'index-changed', callback: IndexChangedCallback, ctx?: any): EventRef {
+        return super.on(name, callback, ctx);
+    }
+
+    private defaultProject(): string {
+        const active = this.plugin.settings.activeProject;
+        return this.plugin.projects.get(active) ? active : this.plugin.projects.first.id;
+    }
+
+    private stageNames(project?: string): string[] {
+        const projects = project ? [project] : this.plugin.projects.projects.map(p => p.id);
+        const names: string[] = [];
+        projects.forEach(id => this.plugin.projects.pipeline(id).stages.forEach(stage => {
+            if (!names.includes(stage.name)) names.push(stage.name);
+        }));
+        return names;
+    }
+
+    private toDate(value: DateInput, name: string): LocalDate {
+        const date = value instanceof LocalDate ? value : parseLocalDate(value);
+        if (!date) throw new Error(`Manuscript Calendar API: ${name} is not a date: ${String(value)}`);
+        return date;
+    }
+}
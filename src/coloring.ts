@@ -0,0 +1,74 @@
+import { SceneRecord } from './sceneIndex';
+import { sceneFieldValues } from './sceneFilter';
+import { ColorMode, ColorSettings } from './settings';
+import { stageSlug } from './stages';
+
+export const COLOR_MODES: Array<{ mode: ColorMode, label: string }> = [
+    { mode: 'stage', label: 'Stage' },
+    { mode: 'subplot', label: 'Subplot' },
+    { mode: 'pov', label: 'POV' },
+    { mode: 'status', label: 'Status' },
+    { mode: 'field', label: 'Field' }
+];
+
+// Colors for values without one in the palette, picked by a hash of the value
+export const AUTO_COLORS = ['#4ea0fd', '#e0706c', '#57c176', '#ffb626', '#b070e0', '#3fc1c9', '#f28b50', '#8d9bb0'];
+
+// Frontmatter key the dots are colored by; null when coloring by stage
+export function colorField(colors: ColorSettings, statusField: string): string | null {
+    switch (colors.mode) {
+        case 'subplot':
+            return colors.subplotField;
+        case 'pov':
+            return colors.povField;
+        case 'status':
+            return statusField;
+        case 'field':
+            return colors.field.trim() || null;
+        default:
+            return null;
+    }
+}
+
+// The value a scene is colored by: the first value of the field, if any
+export function sceneColorValue(scene: SceneRecord, field: string): string | null {
+    return sceneFieldValues(scene, field)[0] ?? null;
+}
+
+function autoIndex(value: string): number {
+    let hash = 0;
+    const key = value.toLowerCase();
+    for (let i = 0; i < key.length; i++) {
+        hash = (Math.imul(hash, 31) + key.charCodeAt(i)) >>> 0;
+    }
+    return hash % AUTO_COLORS.length;
+}
+
+// Palette of a field, keyed by lowercased value
+export function paletteFor(colors: ColorSettings, field: string): Record<string, string> {
+    return colors.palettes[field.toLowerCase()] ?? {};
+}
+
+// Color of a value: from the palette, otherwise an automatic one
+export function valueColor(colors: ColorSettings, field: string, value: string): string {
+    return paletteFor(colors, field)[value.toLowerCase()] ?? AUTO_COLORS[autoIndex(value)];
+}
+
+// CSS class carrying a value's color; values without a palette color share the automatic classes
+export function valueClass(colors: ColorSettings, field: string, value: string | null): string {
+    if (value === null) return 'color-value-none';
+    return paletteFor(colors, field)[value.toLowerCase()] !== undefined
+        ? `color-value-${stageSlug(field)}-${stageSlug(value)}`
+        : `color-auto-${autoIndex(value)}`;
+}
+
+// CSS rules exposing each palette and automatic color as --value-color
+export function buildColorStylesheet(colors: ColorSettings): string {
+    const rules = AUTO_COLORS.map((color, index) => `.color-auto-${index} { --value-color: ${color}; }`);
+    Object.entries(colors.palettes).forEach(([field, palette]) => {
+        Object.entries(palette).forEach(([value, color]) => {
+            rules.push(`.color-value-${stageSlug(field)}-${stageSlug(value)} { --value-color: ${color}; }`);
+        });
+    });
+    return rules.join('\n');
+}
@@ -0,0 +1,135 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A calendar day with no time or time zone attached.
+ * Due dates are compared, keyed and bucketed as LocalDates so that a scene due
+ * on 2024-03-05 lands on the 5th for every writer, wherever they are.
+ */
+export class LocalDate {
+    readonly year: number;
+    readonly month: number; // 1-12
+    readonly day: number;
+
+    private constructor(year: number, month: number, day: number) {
+        this.year = year;
+        this.month = month;
+        this.day = day;
+    }
+
+    // Build a date from parts; out of range values roll over (day 0 = last day of previous month)
+    static of(year: number, month: number, day: number): LocalDate {
+        const utc = new Date(Date.UTC(year, month - 1, day));
+        return new LocalDate(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate());
+    }
+
+    // The calendar day a JS Date falls on in the local time zone
+    static fromDate(date: Date): LocalDate {
+        return new LocalDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    }
+
+    static today(): LocalDate {
+        return LocalDate.fromDate(new Date());
+    }
+
+    // Parse a YYYY-MM-DD key
+    static fromKey(key: string): LocalDate | null {
+        const match = key.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+        if (!match) return null;
+        const year = parseInt(match[1], 10);
+        const month = parseInt(match[2], 10);
+        const day = parseInt(match[3], 10);
+        if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+        const date = LocalDate.of(year, month, day);
+        // Reject impossible dates such as 2023-02-30 instead of rolling them over
+        return date.month === month ? date : null;
+    }
+
+    // YYYY-MM-DD, used as the key for day cells and maps
+    get key(): string {
+        return `${this.year}-${String(this.month).padStart(2, '0')}-${String(this.day).padStart(2, '0')}`;
+    }
+
+    private get epochDay(): number {
+        return Math.round(Date.UTC(this.year, this.month - 1, this.day) / MS_PER_DAY);
+    }
+
+    // Local midnight as a JS Date, for display and Date based APIs
+    toDate(): Date {
+        return new Date(this.year, this.month - 1, this.day);
+    }
+
+    addDays(days: number): LocalDate {
+        return LocalDate.of(this.year, this.month, this.day + days);
+    }
+
+    // 0 = Sunday ... 6 = Saturday
+    dayOfWeek(): number {
+        return new Date(Date.UTC(this.year, this.month - 1, this.day)).getUTCDay();
+    }
+
+    // Negative if this date is before the other, 0 if equal, positive if after
+    compare(other: LocalDate): number {
+        return this.epochDay - other.epochDay;
+    }
+
+    daysUntil(other: LocalDate): number {
+        return other.epochDay - this.epochDay;
+    }
+
+    equals(other: LocalDate | null | undefined): boolean {
+        return !!other && this.compare(other) === 0;
+    }
+}
+
+// Pull the target out of a [[wikilink]], dropping any folder, heading or alias
+export function unwrapLink(text: string): string {
+    const linkMatch = text.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/);
+    const target = linkMatch ? linkMatch[1] : text;
+    return target.split('/').pop()?.replace(/\.md$/, '') ?? target;
+}
+
+/**
+ * Parse a frontmatter or Dataview value into a LocalDate. Accepts:
+ * - ISO dates (2024-03-05)
+ * - datetimes; without an offset the written date is used, with an offset the
+ *   local calendar day of that instant is used
+ * - Dataview DateTime objects and Link objects
+ * - [[2024-03-05]] style links to daily notes
+ */
+export function parseLocalDate(value: unknown): LocalDate | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (Array.isArray(value)) return parseLocalDate(value[0]);
+
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? null : LocalDate.fromDate(value);
+    }
+
+    if (typeof value === 'object') {
+        const obj = value as { year?: unknown; month?: unknown; day?: unknown; path?: unknown };
+        // Dataview (Luxon) DateTime objects are already in local time
+        if (typeof obj.year === 'number' && typeof obj.month === 'number' && typeof obj.day === 'number') {
+            return LocalDate.of(obj.year, obj.month, obj.day);
+        }
+        // Dataview Link objects
+        if (typeof obj.path === 'string') {
+            return parseLocalDate(obj.path);
+        }
+        return null;
+    }
+
+    const text = unwrapLink(String(value).trim());
+
+    // Plain date, optionally followed by a time with no offset
+    const localMatch = text.match(/^(\d{4}-\d{1,2}-\d{1,2})(?:[T ](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?$/);
+    if (localMatch) {
+        return LocalDate.fromKey(localMatch[1]);
+    }
+
+    // Datetime with an explicit offset or Z: use the local day of that instant
+    if (/^\d{4}-\d{1,2}-\d{1,2}[T ]\d{1,2}:\d{2}/.test(text)) {
+        const parsed = new Date(text);
+        return isNaN(parsed.getTime()) ? null : LocalDate.fromDate(parsed);
+    }
+
+    return null;
+}
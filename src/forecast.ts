@@ -0,0 +1,116 @@
+import { LocalDate } from './dates';
+import { averageSceneWords } from './milestones';
+import { CompletionLookup, SceneRecord, finishedOn, isSceneComplete } from './sceneIndex';
+import { StagePipeline } from './stages';
+import { WeekScheme } from './weeks';
+
+// Projected end of the current stage at the recent pace
+export interface StageForecast {
+    stage: string;
+    // Scenes not yet complete at the stage, and the words they still need
+    remainingScenes: number;
+    remainingWords: number;
+    // Average completed scenes and words per week over the sampled weeks
+    scenesPerWeek: number;
+    wordsPerWeek: number;
+    weeksSampled: number;
+    // Null when the pace is zero, so no finish is in sight
+    expected: LocalDate | null;
+    optimistic: LocalDate | null;
+    pessimistic: LocalDate | null;
+}
+
+// Full weeks before the current one that set the pace
+const SAMPLE_WEEKS = 8;
+
+// Days until remaining work is done at perWeek; null when nothing moves
+function daysAtPace(remaining: number, perWeek: number): number | null {
+    if (remaining <= 0) return 0;
+    if (perWeek <= 0) return null;
+    return Math.ceil((remaining / perWeek) * 7);
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+    const average = mean(values);
+    return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+/**
+ * Forecast when the highest stage will be finished. The pace is the scenes
+ * and words completed at that stage per week, counted like the statistics
+ * (on the day they were finished, falling back to the due date, up to today),
+ * over the full weeks before this one. The finish is the later of the scene
+ * and word estimates. The range assumes one standard deviation faster or
+ * slower, but never less than half the pace.
+ */
+export function computeForecast(scenes: SceneRecord[], pipeline: StagePipeline, weekScheme: WeekScheme, today: LocalDate, completedOn: CompletionLookup = () => null): StageForecast | null {
+    if (scenes.length === 0) return null;
+    const stage = pipeline.highest(scenes.map(scene => scene.publishStage)).name;
+    const stageRank = pipeline.rank(stage);
+
+    // A scene is done once it is complete at this stage or has moved past it
+    const remaining = scenes.filter(scene => {
+        const rank = pipeline.rank(scene.publishStage);
+        return rank < stageRank || (rank === stageRank && !isSceneComplete(scene));
+    });
+    // Day a scene counts as finished: when it was finished, otherwise its due date
+    const completionDay = (scene: SceneRecord) => finishedOn(scene, completedOn) ?? scene.dueDate;
+    const completed = scenes.filter(scene => {
+        const day = completionDay(scene);
+        return scene.publishStage === stage && isSceneComplete(scene) && day !== null && day.compare(today) <= 0;
+    });
+    const perScene = averageSceneWords(scenes.filter(scene => scene.publishStage === stage));
+    const remainingWords = remaining.reduce((sum, scene) => sum + Math.max(0, perScene - (scene.publishStage === stage ? scene.words : 0)), 0);
+
+    // Sample the full weeks before this one, but not weeks before the stage's first completion
+    const currentWeek = weekScheme.startOf(today);
+    const firstCompletion = completed.reduce<LocalDate | null>((first, scene) =>
+        !first || completionDay(scene)!.compare(first) < 0 ? completionDay(scene)! : first, null);
+    let weeksSampled = SAMPLE_WEEKS;
+    if (firstCompletion) {
+        const weeksSinceFirst = Math.floor(weekScheme.startOf(firstCompletion).daysUntil(currentWeek) / 7);
+        weeksSampled = Math.max(1, Math.min(SAMPLE_WEEKS, weeksSinceFirst));
+    }
+    const sampleStart = currentWeek.addDays(-7 * weeksSampled);
+    const weeklyScenes: number[] = new Array(weeksSampled).fill(0);
+    const weeklyWords: number[] = new Array(weeksSampled).fill(0);
+    completed.forEach(scene => {
+        const week = Math.floor(sampleStart.daysUntil(weekScheme.startOf(completionDay(scene)!)) / 7);
+        if (week < 0 || week >= weeksSampled) return;
+        weeklyScenes[week]++;
+        weeklyWords[week] += scene.words;
+    });
+
+    const scenesPerWeek = mean(weeklyScenes);
+    const wordsPerWeek = mean(weeklyWords);
+    const finishAt = (scenePace: number, wordPace: number): LocalDate | null => {
+        const sceneDays = daysAtPace(remaining.length, scenePace);
+        // Word counts are optional; without any the scene pace decides alone
+        const wordDays = wordsPerWeek > 0 ? daysAtPace(remainingWords, wordPace) : 0;
+        if (sceneDays === null || wordDays === null) return null;
+        return today.addDays(Math.max(sceneDays, wordDays));
+    };
+    const slower = (average: number, values: number[]) => Math.max(average - standardDeviation(values), average / 2);
+
+    return {
+        stage,
+        remainingScenes: remaining.length,
+        remainingWords,
+        scenesPerWeek,
+        wordsPerWeek,
+        weeksSampled,
+        expected: finishAt(scenesPerWeek, wordsPerWeek),
+        optimistic: finishAt(scenesPerWeek + standardDeviation(weeklyScenes), wordsPerWeek + standardDeviation(weeklyWords)),
+        pessimistic: finishAt(slower(scenesPerWeek, weeklyScenes), slower(wordsPerWeek, weeklyWords))
+    };
+}
+
+// Short date such as "14 Sep 2026"
+export function formatForecastDate(date: LocalDate | null): string {
+    if (!date) return 'not in sight';
+    return `${date.day} ${date.toDate().toLocaleString(undefined, { month: 'short' })} ${date.year}`;
+}
@@ -0,0 +1,82 @@
+// Writing quotas for one project (or one stage of it). Zero means no goal.
+export interface WritingGoals {
+    weeklyScenes: number;
+    weeklyWords: number;
+    dailyScenes: number;
+    dailyWords: number;
+}
+
+export type GoalPeriod = 'weekly' | 'daily';
+
+// Completed output measured against a goal
+export interface GoalProgress {
+    // Share of the goal reached, 0..1; with two goals the one further behind counts
+    fraction: number;
+    met: boolean;
+    // e.g. "3/5 scenes, 4,200/6,000 words"
+    summary: string;
+}
+
+export const DEFAULT_GOALS: WritingGoals = {
+    weeklyScenes: 0,
+    weeklyWords: 0,
+    dailyScenes: 0,
+    dailyWords: 0
+};
+
+// Fill in missing or invalid values on goals loaded from settings
+export function normalizeGoals(raw: Partial<WritingGoals> | undefined): WritingGoals {
+    const goals = { ...DEFAULT_GOALS };
+    if (!raw) return goals;
+    (Object.keys(DEFAULT_GOALS) as Array<keyof WritingGoals>).forEach(key => {
+        const value = Number(raw[key]);
+        goals[key] = isFinite(value) && value > 0 ? Math.floor(value) : 0;
+    });
+    return goals;
+}
+
+export function hasGoals(goals: WritingGoals | undefined, period?: GoalPeriod): boolean {
+    if (!goals) return false;
+    const weekly = goals.weeklyScenes > 0 || goals.weeklyWords > 0;
+    const daily = goals.dailyScenes > 0 || goals.dailyWords > 0;
+    if (period === 'weekly') return weekly;
+    if (period === 'daily') return daily;
+    return weekly || daily;
+}
+
+// Combined quotas, used by the all projects overlay
+export function sumGoals(goals: WritingGoals[]): WritingGoals {
+    return goals.reduce((total, goal) => ({
+        weeklyScenes: total.weeklyScenes + goal.weeklyScenes,
+        weeklyWords: total.weeklyWords + goal.weeklyWords,
+        dailyScenes: total.dailyScenes + goal.dailyScenes,
+        dailyWords: total.dailyWords + goal.dailyWords
+    }), { ...DEFAULT_GOALS });
+}
+
+// Progress of a week's or day's completed scenes and words, or null without a goal for the period
+export function goalProgress(stats: { sceneCount: number, wordCount: number } | undefined, goals: WritingGoals | null, period: GoalPeriod): GoalProgress | null {
+    if (!goals || !hasGoals(goals, period)) return null;
+    const sceneGoal = period === 'weekly' ? goals.weeklyScenes : goals.dailyScenes;
+    const wordGoal = period === 'weekly' ? goals.weeklyWords : goals.dailyWords;
+    const scenes = stats?.sceneCount ?? 0;
+    const words = stats?.wordCount ?? 0;
+
+    const fractions: number[] = [];
+    const parts: string[] = [];
+    if (sceneGoal > 0) {
+        fractions.push(scenes / sceneGoal);
+        parts.push(`${scenes}/${sceneGoal} ${sceneGoal === 1 ? 'scene' : 'scenes'}`);
+    }
+    if (wordGoal > 0) {
+        fractions.push(words / wordGoal);
+        parts.push(`${words.toLocaleString()}/${wordGoal.toLocaleString()} words`);
+    }
+
+    const fraction = Math.min(...fractions);
+    return {
+        fraction: Math.max(0, Math.min(1, fraction)),
+        met: fraction >= 1,
+        summary: parts.join(', ')
+    };
+}
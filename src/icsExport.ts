@@ -0,0 +1,173 @@
+import { Notice, TFile, debounce, normalizePath } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { ProjectSet } from './projects';
+import { SceneRecord } from './sceneIndex';
+
+// Stable event id from the scene path, so calendar apps update events instead of duplicating them
+export function icsUid(path: string): string {
+    // 32-bit FNV-1a over the path, twice with different seeds for fewer collisions
+    const hash = (seed: number) => {
+        let h = seed;
+        for (let i = 0; i < path.length; i++) {
+            h ^= path.charCodeAt(i);
+            h = Math.imul(h, 0x01000193) >>> 0;
+        }
+        return h.toString(16).padStart(8, '0');
+    };
+    return `${hash(0x811c9dc5)}${hash(0x050c5d1f)}@manuscript-calendar`;
+}
+
+// Escape TEXT values (RFC 5545 3.3.11)
+function escapeText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+const encoder = new TextEncoder();
+
+// Fold content lines longer than 75 octets of UTF-8 (RFC 5545 3.1), never inside a character
+function foldLine(line: string): string {
+    if (encoder.encode(line).length <= 75) return line;
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+    // The leading space of a continuation line counts toward its 75 octets
+    let limit = 75;
+    for (const char of Array.from(line)) {
+        const charSize = encoder.encode(char).length;
+        if (size + charSize > limit) {
+            parts.push(current);
+            current = '';
+            size = 0;
+            limit = 74;
+        }
+        current += char;
+        size += charSize;
+    }
+    parts.push(current);
+    return parts.map((part, index) => index === 0 ? part : ` ${part}`).join('\r\n');
+}
+
+function icsDate(date: LocalDate): string {
+    return date.key.replace(/-/g, '');
+}
+
+function icsTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build an iCalendar document with one all-day event per scene with a Due date.
+ * The description carries the status, stage, revision and words.
+ */
+export function buildIcs(scenes: SceneRecord[], projects: ProjectSet, stamp: Date): string {
+    const multipleProjects = projects.projects.length > 1;
+    const lines: string[] = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Manuscript Calendar//Scene deadlines//EN',
+        'CALSCALE:GREGORIAN',
+        'X-WR-CALNAME:Manuscript Calendar'
+    ];
+
+    scenes
+        .filter(scene => scene.dueDate)
+        .sort((a, b) => a.dueDate!.compare(b.dueDate!) || a.path.localeCompare(b.path))
+        .forEach(scene => {
+            const project = projects.get(scene.project);
+            const summary = multipleProjects && project ? `${project.name}: ${scene.name}` : scene.name;
+            const description = [
+                `Status: ${scene.status.join(', ') || 'none'}`,
+                `Stage: ${scene.publishStage}`,
+                `Revision: ${scene.revision}`,
+                `Words: ${scene.words}`,
+                `Note: ${scene.path}`
+            ].join('\n');
+
+            lines.push(
+                'BEGIN:VEVENT',
+                `UID:${icsUid(scene.path)}`,
+                `DTSTAMP:${icsTimestamp(stamp)}`,
+                `DTSTART;VALUE=DATE:${icsDate(scene.dueDate!)}`,
+                `DTEND;VALUE=DATE:${icsDate(scene.dueDate!.addDays(1))}`,
+                `SUMMARY:${escapeText(summary)}`,
+                `DESCRIPTION:${escapeText(description)}`,
+                `CATEGORIES:${escapeText(scene.publishStage)}`,
+                'TRANSP:TRANSPARENT',
+                'END:VEVENT'
+            );
+        });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Compare documents without the DTSTAMP lines, which change on every export
+function withoutStamps(ics: string): string {
+    return ics.replace(/^DTSTAMP:.*$/gm, '');
+}
+
+/**
+ * Writes the scene deadlines to the configured .ics file in the vault, on
+ * command or automatically after the scene index changes.
+ */
+export class IcsExporter {
+    private plugin: ManuscriptCalendarPlugin;
+    private requestAutoExport = debounce(() => this.export(false), 5000, true);
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    // Export path from the settings, always ending in .ics
+    get path(): string {
+        const configured = this.plugin.settings.icsExport.path.trim() || 'Manuscript Calendar.ics';
+        return normalizePath(/\.ics$/i.test(configured) ? configured : `${configured}.ics`);
+    }
+
+    onIndexChanged() {
+        if (this.plugin.settings.icsExport.autoExport) {
+            this.requestAutoExport();
+        }
+    }
+
+    async export(showNotice = true): Promise<boolean> {
+        const { vault } = this.plugin.app;
+        const path = this.path;
+        const scenes = this.plugin.sceneIndex.getScenes();
+        const content = buildIcs(scenes, this.plugin.projects, new Date());
+
+        try {
+            const existing = vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                // Leave an unchanged file alone so synced folders don't churn
+                if (withoutStamps(await vault.read(existing)) !== withoutStamps(content)) {
+                    await vault.modify(existing, content);
+                }
+            } else {
+                const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+                if (folder && !vault.getAbstractFileByPath(folder)) {
+                    await vault.createFolder(folder);
+                }
+                await vault.create(path, content);
+            }
+
+            const count = scenes.filter(scene => scene.dueDate).length;
+            this.plugin.debugLog(`Exported ${count} scene(s) to ${path}`);
+            if (showNotice) {
+                new Notice(`Exported ${count} ${count === 1 ? 'scene' : 'scenes'} to ${path}.`);
+            }
+            return true;
+        } catch (error) {
+            console.error(`Error exporting scenes to ${path}:`, error);
+            if (showNotice) {
+                new Notice(`Could not export to ${path}: ${error instanceof Error ? error.message : error}`);
+            }
+            return false;
+        }
+    }
+}
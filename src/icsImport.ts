@@ -0,0 +1,426 @@
+import { TFile, debounce, normalizePath } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+    freq: Frequency;
+    interval: number;
+    count: number | null;
+    until: LocalDate | null;
+    // Weekdays (0 = Sunday) with an optional ordinal, e.g. 2MO or -1FR
+    byDay: Array<{ ordinal: number | null, day: number }>;
+    byMonthDay: number[];
+    byMonth: number[];
+    // First day of the week for WEEKLY rules (WKST, default Monday)
+    weekStart: number;
+}
+
+// A VEVENT as read from an .ics file
+interface CalendarEvent {
+    uid: string;
+    summary: string;
+    start: LocalDate;
+    // HH:MM for timed events, null for all-day events
+    time: string | null;
+    // Days an all-day event covers
+    days: number;
+    rule: RecurrenceRule | null;
+    exdates: Set<string>;
+    // Day of the occurrence this event replaces, for modified recurring instances
+    recurrenceId: string | null;
+}
+
+// One day an imported event falls on
+export interface EventOccurrence {
+    summary: string;
+    time: string | null;
+    // Vault path of the .ics file
+    source: string;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Occurrences are expanded this far around today
+const WINDOW_DAYS = 3 * 366;
+// Start days are distinct, so a rule can't have more occurrences in the window than it has days
+const MAX_OCCURRENCES = 2 * WINDOW_DAYS + 1;
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+// Unfold continuation lines and split each line into name, parameters and value
+function readContentLines(text: string): ContentLine[] {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter(line => line.includes(':'))
+        .map(line => {
+            // The value starts at the first colon outside a quoted parameter
+            let inQuotes = false;
+            let split = -1;
+            for (let i = 0; i < line.length; i++) {
+                if (line[i] === '"') inQuotes = !inQuotes;
+                if (line[i] === ':' && !inQuotes) {
+                    split = i;
+                    break;
+                }
+            }
+            const [name, ...paramParts] = line.slice(0, split).split(';');
+            const params: Record<string, string> = {};
+            paramParts.forEach(part => {
+                const [key, value = ''] = part.split('=');
+                params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+            });
+            return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+        });
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Read a DATE or DATE-TIME value. UTC times (ending in Z) are moved to the
+ * local day; times with a TZID or without a zone are taken as wall-clock time.
+ */
+function parseIcsDate(value: string, params: Record<string, string>): { date: LocalDate, time: string | null } | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+    const [, y, m, d, hh, mm, ss, utc] = match;
+    if (!hh || params.VALUE === 'DATE') {
+        return { date: LocalDate.of(+y, +m, +d), time: null };
+    }
+    if (utc) {
+        const instant = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +(ss ?? 0)));
+        const time = `${String(instant.getHours()).padStart(2, '0')}:${String(instant.getMinutes()).padStart(2, '0')}`;
+        return { date: LocalDate.fromDate(instant), time };
+    }
+    return { date: LocalDate.of(+y, +m, +d), time: `${hh}:${mm}` };
+}
+
+function parseRule(value: string): RecurrenceRule | null {
+    const parts: Record<string, string> = {};
+    value.split(';').forEach(part => {
+        const [key, val = ''] = part.split('=');
+        parts[key.toUpperCase()] = val.toUpperCase();
+    });
+    const freq = parts.FREQ as Frequency;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+    const numbers = (list: string | undefined) => (list ? list.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n)) : []);
+    const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : [])
+        .map(code => code.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => ({ ordinal: match[1] ? parseInt(match[1], 10) : null, day: WEEKDAY_CODES.indexOf(match[2]) }));
+
+    return {
+        freq,
+        interval: Math.max(1, parseInt(parts.INTERVAL ?? '1', 10) || 1),
+        count: parts.COUNT ? parseInt(parts.COUNT, 10) : null,
+        until: parts.UNTIL ? parseIcsDate(parts.UNTIL, {})?.date ?? null : null,
+        byDay,
+        byMonthDay: numbers(parts.BYMONTHDAY),
+        byMonth: numbers(parts.BYMONTH),
+        weekStart: parts.WKST ? Math.max(0, WEEKDAY_CODES.indexOf(parts.WKST)) : 1
+    };
+}
+
+// Length of an all-day DURATION such as P3D or P1W, in days
+function durationDays(value: string): number {
+    const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+    if (!match) return 1;
+    return Math.max(1, (parseInt(match[1] ?? '0', 10) * 7) + parseInt(match[2] ?? '0', 10));
+}
+
+// Parse the VEVENTs of an .ics document
+export function parseIcs(text: string): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+    let current: ContentLine[] | null = null;
+
+    readContentLines(text).forEach(line => {
+        if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+            current = [];
+        } else if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+            const event = current ? buildEvent(current) : null;
+            if (event) events.push(event);
+            current = null;
+        } else if (current) {
+            current.push(line);
+        }
+    });
+    return events;
+}
+
+function buildEvent(lines: ContentLine[]): CalendarEvent | null {
+    const find = (name: string) => lines.find(line => line.name === name);
+    const startLine = find('DTSTART');
+    const start = startLine ? parseIcsDate(startLine.value, startLine.params) : null;
+    if (!start) return null;
+
+    let days = 1;
+    const endLine = find('DTEND');
+    const durationLine = find('DURATION');
+    if (start.time === null) {
+        const end = endLine ? parseIcsDate(endLine.value, endLine.params) : null;
+        if (end) {
+            days = Math.max(1, start.date.daysUntil(end.date));
+        } else if (durationLine) {
+            days = durationDays(durationLine.value);
+        }
+    }
+
+    const exdates = new Set<string>();
+    lines.filter(line => line.name === 'EXDATE').forEach(line => {
+        line.value.split(',').forEach(value => {
+            const parsed = parseIcsDate(value, line.params);
+            if (parsed) exdates.add(parsed.date.key);
+        });
+    });
+
+    const ruleLine = find('RRULE');
+    const recurrenceLine = find('RECURRENCE-ID');
+    return {
+        uid: find('UID')?.value ?? '',
+        summary: unescapeText(find('SUMMARY')?.value ?? 'Untitled event'),
+        start: start.date,
+        time: start.time,
+        days,
+        rule: ruleLine ? parseRule(ruleLine.value) : null,
+        exdates,
+        recurrenceId: recurrenceLine ? parseIcsDate(recurrenceLine.value, recurrenceLine.params)?.date.key ?? null : null
+    };
+}
+
+// Candidate days of one period of a monthly or yearly rule, in order
+function daysInMonth(rule: RecurrenceRule, year: number, month: number, fallbackDay: number): LocalDate[] {
+    const lastDay = LocalDate.of(year, month + 1, 0).day;
+    const days: number[] = [];
+
+    if (rule.byMonthDay.length > 0) {
+        rule.byMonthDay.forEach(n => days.push(n > 0 ? n : lastDay + n + 1));
+    } else if (rule.byDay.length > 0) {
+        rule.byDay.forEach(({ ordinal, day }) => {
+            const matching: number[] = [];
+            for (let d = 1; d <= lastDay; d++) {
+                if (LocalDate.of(year, month, d).dayOfWeek() === day) matching.push(d);
+            }
+            if (ordinal === null) {
+                days.push(...matching);
+            } else {
+                const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (picked !== undefined) days.push(picked);
+            }
+        });
+    } else {
+        days.push(fallbackDay);
+    }
+
+    return Array.from(new Set(days))
+        .filter(d => d >= 1 && d <= lastDay)
+        .sort((a, b) => a - b)
+        .map(d => LocalDate.of(year, month, d));
+}
+
+// Candidate days of one year of a yearly rule without BYMONTH, where BYDAY ordinals count within the year
+function daysInYear(rule: RecurrenceRule, year: number, fallback: LocalDate): LocalDate[] {
+    const months = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+    if (rule.byMonthDay.length > 0) {
+        return months.flatMap(month => daysInMonth(rule, year, month, fallback.day));
+    }
+    if (rule.byDay.length === 0) {
+        return daysInMonth(rule, year, fallback.month, fallback.day);
+    }
+
+    const first = LocalDate.of(year, 1, 1);
+    const length = first.daysUntil(LocalDate.of(year + 1, 1, 1));
+    const days: LocalDate[] = [];
+    rule.byDay.forEach(({ ordinal, day }) => {
+        const matching: LocalDate[] = [];
+        for (let d = 0; d < length; d++) {
+            const date = first.addDays(d);
+            if (date.dayOfWeek() === day) matching.push(date);
+        }
+        if (ordinal === null) {
+            days.push(...matching);
+        } else {
+            const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+            if (picked) days.push(picked);
+        }
+    });
+    const unique = new Map(days.map(date => [date.key, date]));
+    return Array.from(unique.values()).sort((a, b) => a.compare(b));
+}
+
+/**
+ * Start days of a recurring event between from and to, following RFC 5545 for
+ * the common rule parts. Occurrences before from still count toward COUNT but
+ * are neither returned nor held against MAX_OCCURRENCES.
+ */
+function expandRule(event: CalendarEvent, rule: RecurrenceRule, from: LocalDate, to: LocalDate): LocalDate[] {
+    const dates: LocalDate[] = [];
+    const start = event.start;
+    const last = rule.until && rule.until.compare(to) < 0 ? rule.until : to;
+    const firstWeek = start.addDays(-((start.dayOfWeek() - rule.weekStart + 7) % 7));
+    let produced = 0;
+
+    // Index of the period (day, week, month or year, times the interval) a date falls in
+    const periodOf = (date: LocalDate): number => {
+        switch (rule.freq) {
+            case 'DAILY':
+                return Math.floor(start.daysUntil(date) / rule.interval);
+            case 'WEEKLY':
+                return Math.floor(firstWeek.daysUntil(date) / 7 / rule.interval);
+            case 'MONTHLY':
+                return Math.floor(((date.year - start.year) * 12 + date.month - start.month) / rule.interval);
+            default:
+                return Math.floor((date.year - start.year) / rule.interval);
+        }
+    };
+
+    const accept = (date: LocalDate): boolean => {
+        if (date.compare(start) < 0) return true;
+        if (date.compare(last) > 0) return false;
+        produced++;
+        if (rule.count !== null && produced > rule.count) return false;
+        if (date.compare(from) < 0) return true;
+        dates.push(date);
+        return dates.length < MAX_OCCURRENCES;
+    };
+
+    // Without COUNT nothing before the window matters, so start one period before it
+    const firstPeriod = rule.count === null ? Math.max(0, periodOf(from) - 1) : 0;
+    const lastPeriod = periodOf(last) + 1;
+    for (let period = firstPeriod; period <= lastPeriod; period++) {
+        let candidates: LocalDate[];
+        const step = period * rule.interval;
+        switch (rule.freq) {
+            case 'DAILY':
+                candidates = [start.addDays(step)];
+                break;
+            case 'WEEKLY': {
+                const weekStart = firstWeek.addDays(step * 7);
+                const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.day) : [start.dayOfWeek()];
+                candidates = weekdays
+                    .map(day => weekStart.addDays((day - rule.weekStart + 7) % 7))
+                    .sort((a, b) => a.compare(b));
+                break;
+            }
+            case 'MONTHLY': {
+                const month = LocalDate.of(start.year, start.month + step, 1);
+                candidates = daysInMonth(rule, month.year, month.month, start.day);
+                break;
+            }
+            default: {
+                const year = start.year + step;
+                candidates = rule.byMonth.length > 0
+                    ? [...rule.byMonth]
+                        .sort((a, b) => a - b)
+                        .flatMap(month => daysInMonth(rule, year, month, start.day))
+                    : daysInYear(rule, year, start);
+            }
+        }
+
+        if (candidates.length > 0 && candidates[0].compare(last) > 0) break;
+        let keepGoing = true;
+        for (const date of candidates) {
+            if (!accept(date)) {
+                keepGoing = false;
+                break;
+            }
+        }
+        if (!keepGoing) break;
+    }
+    return dates;
+}
+
+/**
+ * Expand events into the days they fall on between from and to. Recurring
+ * events skip their EXDATEs and the occurrences replaced by modified instances.
+ */
+export function expandEvents(events: CalendarEvent[], source: string, from: LocalDate, to: LocalDate): Map<string, EventOccurrence[]> {
+    const byDay = new Map<string, EventOccurrence[]>();
+    const add = (date: LocalDate, event: CalendarEvent) => {
+        for (let i = 0; i < event.days; i++) {
+            const day = date.addDays(i);
+            if (day.compare(from) < 0 || day.compare(to) > 0) continue;
+            if (!byDay.has(day.key)) byDay.set(day.key, []);
+            byDay.get(day.key)!.push({ summary: event.summary, time: event.time, source });
+        }
+    };
+
+    const replaced = new Set(events.filter(e => e.recurrenceId).map(e => `${e.uid}|${e.recurrenceId}`));
+    events.forEach(event => {
+        if (!event.rule || event.recurrenceId) {
+            add(event.start, event);
+            return;
+        }
+        // Multi-day events that started before the window still show their remaining days
+        expandRule(event, event.rule, from.addDays(1 - event.days), to)
+            .filter(date => !event.exdates.has(date.key) && !replaced.has(`${event.uid}|${date.key}`))
+            .forEach(date => add(date, event));
+    });
+
+    byDay.forEach(list => list.sort((a, b) => (a.time ?? '').localeCompare(b.time ?? '')));
+    return byDay;
+}
+
+/**
+ * Events from the .ics files listed in the settings, shown as read-only
+ * markers. They are parsed when the files change, never treated as scenes,
+ * and never touch stage or ratio calculations.
+ */
+export class IcsOverlay {
+    private plugin: ManuscriptCalendarPlugin;
+    private byDay: Map<string, EventOccurrence[]> = new Map();
+    // Reload after the list of files was edited, once typing has paused
+    requestReload = debounce(() => this.reload(), 1000, true);
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    get paths(): string[] {
+        return this.plugin.settings.icsImports.map(path => normalizePath(path));
+    }
+
+    isSource(path: string): boolean {
+        return this.paths.includes(path);
+    }
+
+    // Re-read every configured file and expand its events around today
+    async reload() {
+        const today = LocalDate.today();
+        const from = today.addDays(-WINDOW_DAYS);
+        const to = today.addDays(WINDOW_DAYS);
+        const byDay = new Map<string, EventOccurrence[]>();
+
+        for (const path of this.paths) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                this.plugin.debugLog(`Imported calendar not found: ${path}`);
+                continue;
+            }
+            try {
+                const events = parseIcs(await this.plugin.app.vault.cachedRead(file));
+                expandEvents(events, path, from, to).forEach((occurrences, dateKey) => {
+                    byDay.set(dateKey, [...(byDay.get(dateKey) ?? []), ...occurrences]);
+                });
+                this.plugin.debugLog(`Imported ${events.length} event(s) from ${path}`);
+            } catch (error) {
+                console.error(`Error importing calendar ${path}:`, error);
+            }
+        }
+
+        this.byDay = byDay;
+        this.plugin.onCalendarOverlayChanged();
+    }
+
+    eventsOn(dateKey: string): EventOccurrence[] {
+        return this.byDay.get(dateKey) ?? [];
+    }
+}
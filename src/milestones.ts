@@ -0,0 +1,73 @@
+import { LocalDate } from './dates';
+import { SceneRecord, isSceneComplete } from './sceneIndex';
+
+// A milestone entered in the project settings
+export interface MilestoneDefinition {
+    name: string;
+    // YYYY-MM-DD
+    date: string;
+}
+
+// A milestone from the settings or from a milestone note
+export interface Milestone {
+    name: string;
+    date: LocalDate;
+    project: string;
+    // Note defining the milestone; null for milestones from the settings
+    path: string | null;
+}
+
+// What is left to do before a milestone
+export interface MilestoneCountdown {
+    milestone: Milestone;
+    daysLeft: number;
+    // Open scenes due on or before the milestone
+    remainingScenes: number;
+    // Estimated from the average length of completed scenes
+    remainingWords: number;
+}
+
+// Assumed length of a scene when no completed scene has a word count
+const DEFAULT_SCENE_WORDS = 1500;
+
+export function normalizeMilestones(raw: unknown): MilestoneDefinition[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(entry => entry && typeof entry === 'object')
+        .map(entry => ({
+            name: typeof entry.name === 'string' ? entry.name : '',
+            date: typeof entry.date === 'string' ? entry.date : ''
+        }));
+}
+
+// Average words of the completed scenes that have a word count
+export function averageSceneWords(scenes: SceneRecord[]): number {
+    const written = scenes.filter(scene => isSceneComplete(scene) && scene.words > 0);
+    return written.length > 0
+        ? Math.round(written.reduce((sum, scene) => sum + scene.words, 0) / written.length)
+        : DEFAULT_SCENE_WORDS;
+}
+
+/**
+ * Countdown to the first milestone from today on. Only the scenes of the
+ * milestone's project count; unwritten words are estimated per open scene
+ * from the average completed scene, less what the scene already has.
+ */
+export function nextMilestoneCountdown(milestones: Milestone[], scenes: SceneRecord[], today: LocalDate): MilestoneCountdown | null {
+    const milestone = milestones
+        .filter(m => m.date.compare(today) >= 0)
+        .sort((a, b) => a.date.compare(b.date))[0];
+    if (!milestone) return null;
+
+    const projectScenes = scenes.filter(scene => scene.project === milestone.project);
+    const perScene = averageSceneWords(projectScenes);
+    const remaining = projectScenes.filter(scene =>
+        !isSceneComplete(scene) && scene.dueDate !== null && scene.dueDate.compare(milestone.date) <= 0
+    );
+    return {
+        milestone,
+        daysLeft: today.daysUntil(milestone.date),
+        remainingScenes: remaining.length,
+        remainingWords: remaining.reduce((sum, scene) => sum + Math.max(0, perScene - scene.words), 0)
+    };
+}
@@ -0,0 +1,303 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { averageSceneWords } from './milestones';
+import { SceneRecord, isSceneComplete, sceneHasStatus } from './sceneIndex';
+import { PlanPace, PlannerSettings } from './settings';
+import { WEEKDAY_NAMES } from './weeks';
+
+export interface PlanOptions extends PlannerSettings {
+    start: LocalDate;
+    target: LocalDate;
+    // Words assumed for scenes without a word count when planning by words
+    wordsPerScene: number;
+}
+
+export interface PlannedScene {
+    scene: SceneRecord;
+    from: LocalDate | null;
+    to: LocalDate;
+}
+
+const MAX_PLAN_DAYS = 3660;
+
+// Scenes the planner moves: every open scene that is undated or still Todo, in manuscript order
+export function scenesToPlan(scenes: SceneRecord[]): SceneRecord[] {
+    return scenes
+        .filter(scene => !isSceneComplete(scene))
+        .filter(scene => !scene.dueDate || sceneHasStatus(scene, 'Todo'))
+        .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' }));
+}
+
+// Writing days from start up to limit (inclusive)
+function writingDaysBetween(start: LocalDate, limit: LocalDate, writingDays: number[]): LocalDate[] {
+    const days: LocalDate[] = [];
+    for (let day = start; day.compare(limit) <= 0; day = day.addDays(1)) {
+        if (writingDays.includes(day.dayOfWeek())) days.push(day);
+    }
+    return days;
+}
+
+/**
+ * Assign a due date to each scene in order. "even" spreads the scenes over the
+ * writing days up to the target; the other paces fill each writing day with
+ * a number of scenes or words and may run past the target.
+ */
+export function planSchedule(scenes: SceneRecord[], options: PlanOptions): PlannedScene[] {
+    if (scenes.length === 0 || options.writingDays.length === 0) return [];
+
+    if (options.pace === 'even') {
+        const days = writingDaysBetween(options.start, options.target, options.writingDays);
+        if (days.length === 0) return [];
+        return scenes.map((scene, index) => ({
+            scene,
+            from: scene.dueDate,
+            to: days[Math.floor((index * days.length) / scenes.length)]
+        }));
+    }
+
+    const amount = Math.max(1, options.amount);
+    const plan: PlannedScene[] = [];
+    let day = options.start;
+    let dayLoad = 0;
+    const nextWritingDay = (from: LocalDate) => {
+        let next = from;
+        for (let i = 0; i < MAX_PLAN_DAYS && !options.writingDays.includes(next.dayOfWeek()); i++) {
+            next = next.addDays(1);
+        }
+        return next;
+    };
+    day = nextWritingDay(day);
+
+    scenes.forEach(scene => {
+        const load = options.pace === 'words' ? (scene.words > 0 ? scene.words : options.wordsPerScene) : 1;
+        // Move on when the day is full, but every day takes at least one scene
+        if (dayLoad > 0 && dayLoad + load > amount) {
+            day = nextWritingDay(day.addDays(1));
+            dayLoad = 0;
+        }
+        plan.push({ scene, from: scene.dueDate, to: day });
+        dayLoad += load;
+    });
+
+    return plan;
+}
+
+/**
+ * Collects the target date, writing days and pace, then opens the preview.
+ */
+export class PlanScheduleModal extends Modal {
+    private plugin: ManuscriptCalendarPlugin;
+    private projectId: string;
+    private startKey: string;
+    private targetKey = '';
+
+    constructor(app: App, plugin: ManuscriptCalendarPlugin, projectId: string) {
+        super(app);
+        this.plugin = plugin;
+        this.projectId = projectId;
+        this.startKey = LocalDate.today().key;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const planner = this.plugin.settings.planner;
+        contentEl.empty();
+        contentEl.addClass('manuscript-planner');
+        contentEl.createEl('h2', { text: 'Plan schedule' });
+
+        const projects = this.plugin.projects.projects;
+        if (projects.length > 1) {
+            new Setting(contentEl)
+                .setName('Project')
+                .addDropdown(dropdown => {
+                    projects.forEach(project => dropdown.addOption(project.id, project.name));
+                    dropdown
+                        .setValue(this.plugin.projects.get(this.projectId)?.id ?? projects[0].id)
+                        .onChange(value => {
+                            this.projectId = value;
+                        });
+                });
+        }
+
+        new Setting(contentEl)
+            .setName('Start date')
+            .setDesc('First day the plan may use (YYYY-MM-DD).')
+            .addText(text => text
+                .setValue(this.startKey)
+                .onChange(value => {
+                    this.startKey = value.trim();
+                }));
+
+        new Setting(contentEl)
+            .setName('Target date')
+            .setDesc('When the draft should be complete (YYYY-MM-DD).')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.targetKey)
+                .onChange(value => {
+                    this.targetKey = value.trim();
+                }));
+
+        const daysSetting = new Setting(contentEl)
+            .setName('Writing days')
+            .setDesc('Days of the week scenes may be scheduled on.');
+        WEEKDAY_NAMES.forEach((name, day) => {
+            daysSetting.addToggle(toggle => toggle
+                .setTooltip(name)
+                .setValue(planner.writingDays.includes(day))
+                .onChange(value => {
+                    planner.writingDays = value
+                        ? [...planner.writingDays, day].sort((a, b) => a - b)
+                        : planner.writingDays.filter(d => d !== day);
+                }));
+            daysSetting.controlEl.createSpan({ cls: 'planner-day-label', text: name.charAt(0) });
+        });
+
+        let amountSetting: Setting | null = null;
+        new Setting(contentEl)
+            .setName('Pace')
+            .addDropdown(dropdown => dropdown
+                .addOption('even', 'Spread evenly up to the target')
+                .addOption('scenes', 'Scenes per writing day')
+                .addOption('words', 'Words per writing day')
+                .setValue(planner.pace)
+                .onChange(value => {
+                    planner.pace = value as PlanPace;
+                    amountSetting?.settingEl.toggleClass('planner-hidden', planner.pace === 'even');
+                }));
+
+        amountSetting = new Setting(contentEl)
+            .setName('Scenes or words per day')
+            .addText(text => text
+                .setValue(String(planner.amount))
+                .onChange(value => {
+                    const parsed = parseInt(value.replace(/,/g, ''), 10);
+                    planner.amount = isNaN(parsed) || parsed < 1 ? 1 : parsed;
+                }));
+        amountSetting.settingEl.toggleClass('planner-hidden', planner.pace === 'even');
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Preview')
+                .setCta()
+                .onClick(() => this.preview()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private preview() {
+        const start = LocalDate.fromKey(this.startKey);
+        const target = LocalDate.fromKey(this.targetKey);
+        const planner = this.plugin.settings.planner;
+        if (!start || !target) {
+            new Notice('Enter the start and target dates as YYYY-MM-DD.');
+            return;
+        }
+        if (target.compare(start) < 0) {
+            new Notice('The target date is before the start date.');
+            return;
+        }
+        if (planner.writingDays.length === 0) {
+            new Notice('Choose at least one writing day.');
+            return;
+        }
+
+        // Remember the choices for next time
+        this.plugin.saveData(this.plugin.settings);
+
+        const projectScenes = this.plugin.sceneIndex.getScenes().filter(scene => scene.project === this.projectId);
+        const scenes = scenesToPlan(projectScenes);
+        if (scenes.length === 0) {
+            new Notice('No undated or Todo scenes to plan.');
+            return;
+        }
+
+        // Unwritten scenes are assumed to be as long as the average completed one
+        const wordsPerScene = averageSceneWords(projectScenes);
+
+        const plan = planSchedule(scenes, { ...planner, start, target, wordsPerScene });
+        if (plan.length === 0) {
+            new Notice('There are no writing days between the start and target dates.');
+            return;
+        }
+        this.close();
+        new PlanPreviewModal(this.app, this.plugin, plan, target).open();
+    }
+}
+
+/**
+ * Shows the old and new date of every planned scene before anything is written.
+ * Applying writes the changed dates as one undoable batch.
+ */
+export class PlanPreviewModal extends Modal {
+    private plugin: ManuscriptCalendarPlugin;
+    private plan: PlannedScene[];
+    private target: LocalDate;
+
+    constructor(app: App, plugin: ManuscriptCalendarPlugin, plan: PlannedScene[], target: LocalDate) {
+        super(app);
+        this.plugin = plugin;
+        this.plan = plan;
+        this.target = target;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('manuscript-planner');
+        contentEl.createEl('h2', { text: 'Schedule preview' });
+
+        const changes = this.plan.filter(entry => !entry.from || !entry.from.equals(entry.to));
+        const finish = this.plan[this.plan.length - 1].to;
+        const daysLate = this.target.daysUntil(finish);
+
+        const summary = contentEl.createEl('p', {
+            text: `${changes.length} of ${this.plan.length} scenes get a new date. The last scene is due ${finish.key}.`
+        });
+        if (daysLate > 0) {
+            summary.addClass('planner-late');
+            summary.appendText(` That is ${daysLate} ${daysLate === 1 ? 'day' : 'days'} after the target; raise the pace or add writing days.`);
+        }
+
+        const table = contentEl.createDiv({ cls: 'planner-diff' }).createEl('table');
+        const header = table.createEl('tr');
+        ['Scene', 'Old date', 'New date'].forEach(title => header.createEl('th', { text: title }));
+        this.plan.forEach(entry => {
+            const row = table.createEl('tr');
+            const changed = !entry.from || !entry.from.equals(entry.to);
+            if (!changed) row.addClass('planner-unchanged');
+            row.createEl('td', { text: entry.scene.name });
+            row.createEl('td', { text: entry.from ? entry.from.key : '—', cls: changed ? 'planner-old' : '' });
+            row.createEl('td', { text: entry.to.key, cls: [
+                changed ? 'planner-new' : '',
+                entry.to.compare(this.target) > 0 ? 'planner-late' : ''
+            ].join(' ').trim() });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText(`Apply ${changes.length} ${changes.length === 1 ? 'change' : 'changes'}`)
+                .setCta()
+                .setDisabled(changes.length === 0)
+                .onClick(async () => {
+                    this.close();
+                    await this.plugin.rescheduler.reschedule(
+                        changes.map(entry => ({ path: entry.scene.path, to: entry.to })),
+                        `Scheduled ${changes.length} ${changes.length === 1 ? 'scene' : 'scenes'} through ${finish.key}`
+                    );
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
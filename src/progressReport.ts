@@ -0,0 +1,326 @@
+import { App, MarkdownView, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { SceneRecord, isSceneComplete } from './sceneIndex';
+import { ReportFormat, ReportGranularity } from './settings';
+import { WeekScheme } from './weeks';
+
+// Progress of one day or week
+export interface ReportRow {
+    start: LocalDate;
+    end: LocalDate;
+    // Week number of weekly rows
+    week: number | null;
+    scenesCompleted: number;
+    words: number;
+    // Completed scenes per publish stage
+    stages: Record<string, number>;
+    // Scenes due in the period that are past due and not complete
+    overdue: number;
+}
+
+export interface ProgressReport {
+    from: LocalDate;
+    to: LocalDate;
+    granularity: ReportGranularity;
+    // Stage columns, in pipeline order
+    stages: string[];
+    rows: ReportRow[];
+    totals: ReportRow;
+}
+
+const MAX_REPORT_DAYS = 3660;
+
+const FILE_EXTENSIONS: Record<ReportFormat, string> = { csv: 'csv', json: 'json', markdown: 'md' };
+
+function emptyRow(start: LocalDate, end: LocalDate, week: number | null, stages: string[]): ReportRow {
+    const counts: Record<string, number> = {};
+    stages.forEach(stage => {
+        counts[stage] = 0;
+    });
+    return { start, end, week, scenesCompleted: 0, words: 0, stages: counts, overdue: 0 };
+}
+
+/**
+ * Per-day or per-week progress between from and to. Like the calendar,
+ * completed scenes count on their due date and only up to today, and overdue
+ * scenes are open scenes due before today.
+ */
+export function buildProgressReport(
+    scenes: SceneRecord[],
+    stages: string[],
+    weekScheme: WeekScheme,
+    from: LocalDate,
+    to: LocalDate,
+    granularity: ReportGranularity,
+    today: LocalDate
+): ProgressReport {
+    // Longer ranges are cut short, so the totals match the rows
+    if (from.daysUntil(to) >= MAX_REPORT_DAYS) to = from.addDays(MAX_REPORT_DAYS - 1);
+
+    const columns = [...stages];
+    scenes.forEach(scene => {
+        if (isSceneComplete(scene) && !columns.includes(scene.publishStage)) columns.push(scene.publishStage);
+    });
+
+    // Weekly rows cover whole weeks, clipped to the range
+    const rows: ReportRow[] = [];
+    let start = from;
+    while (start.compare(to) <= 0) {
+        let end = granularity === 'week' ? weekScheme.startOf(start).addDays(6) : start;
+        if (end.compare(to) > 0) end = to;
+        rows.push(emptyRow(start, end, granularity === 'week' ? weekScheme.weekNumber(start) : null, columns));
+        start = end.addDays(1);
+    }
+    const totals = emptyRow(from, to, null, columns);
+
+    scenes.forEach(scene => {
+        const due = scene.dueDate;
+        if (!due || due.compare(from) < 0 || due.compare(to) > 0) return;
+        const row = rows.find(r => due.compare(r.start) >= 0 && due.compare(r.end) <= 0);
+        if (!row) return;
+
+        if (isSceneComplete(scene)) {
+            if (due.compare(today) > 0) return;
+            [row, totals].forEach(target => {
+                target.scenesCompleted++;
+                target.words += scene.words;
+                target.stages[scene.publishStage]++;
+            });
+        } else if (scene.status.length > 0 && due.compare(today) < 0) {
+            row.overdue++;
+            totals.overdue++;
+        }
+    });
+
+    return { from, to, granularity, stages: columns, rows, totals };
+}
+
+function rowLabel(row: ReportRow, granularity: ReportGranularity): string {
+    if (granularity === 'day') return row.start.key;
+    return row.week !== null ? `Week ${row.week} (${row.start.key})` : row.start.key;
+}
+
+function headings(report: ProgressReport): string[] {
+    return [report.granularity === 'week' ? 'Week' : 'Day', 'Start', 'End', 'Scenes completed', 'Words', ...report.stages, 'Overdue'];
+}
+
+function cells(row: ReportRow, label: string, report: ProgressReport): string[] {
+    return [
+        label,
+        row.start.key,
+        row.end.key,
+        String(row.scenesCompleted),
+        String(row.words),
+        ...report.stages.map(stage => String(row.stages[stage] ?? 0)),
+        String(row.overdue)
+    ];
+}
+
+export function formatCsv(report: ProgressReport): string {
+    const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = [
+        headings(report),
+        ...report.rows.map(row => cells(row, rowLabel(row, report.granularity), report)),
+        cells(report.totals, 'Total', report)
+    ];
+    return lines.map(line => line.map(quote).join(',')).join('\n') + '\n';
+}
+
+export function formatJson(report: ProgressReport): string {
+    const toJson = (row: ReportRow) => ({
+        start: row.start.key,
+        end: row.end.key,
+        ...(row.week !== null ? { week: row.week } : {}),
+        scenesCompleted: row.scenesCompleted,
+        words: row.words,
+        stages: row.stages,
+        overdue: row.overdue
+    });
+    return JSON.stringify({
+        from: report.from.key,
+        to: report.to.key,
+        granularity: report.granularity,
+        stages: report.stages,
+        rows: report.rows.map(toJson),
+        totals: toJson(report.totals)
+    }, null, 2) + '\n';
+}
+
+export function formatMarkdown(report: ProgressReport): string {
+    const escape = (value: string) => value.replace(/\|/g, '\\|');
+    const line = (values: string[]) => `| ${values.map(escape).join(' | ')} |`;
+    // Start and end are implied by the label in the table
+    const tableCells = (row: ReportRow, label: string) => {
+        const all = cells(row, label, report);
+        return [all[0], ...all.slice(3)];
+    };
+    const header = headings(report);
+    const columns = [header[0], ...header.slice(3)];
+    return [
+        `**Progress ${report.from.key} to ${report.to.key}**`,
+        '',
+        line(columns),
+        line(columns.map((_, index) => index === 0 ? '---' : '---:')),
+        ...report.rows.map(row => line(tableCells(row, rowLabel(row, report.granularity)))),
+        line(tableCells(report.totals, '**Total**'))
+    ].join('\n') + '\n';
+}
+
+/**
+ * Asks for a date range, row size and format, then writes the progress of
+ * the scenes shown in the calendar to a CSV or JSON file, or a Markdown table
+ * at the cursor of the open note.
+ */
+export class ProgressReportModal extends Modal {
+    private plugin: ManuscriptCalendarPlugin;
+    private fromKey: string;
+    private toKey: string;
+
+    constructor(app: App, plugin: ManuscriptCalendarPlugin) {
+        super(app);
+        this.plugin = plugin;
+        const today = LocalDate.today();
+        this.fromKey = LocalDate.of(today.year, today.month, 1).key;
+        this.toKey = today.key;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const options = this.plugin.settings.progressReport;
+        contentEl.empty();
+        contentEl.addClass('manuscript-report');
+        contentEl.createEl('h2', { text: 'Export progress report' });
+
+        new Setting(contentEl)
+            .setName('From')
+            .setDesc('First day of the report (YYYY-MM-DD).')
+            .addText(text => text
+                .setValue(this.fromKey)
+                .onChange(value => {
+                    this.fromKey = value.trim();
+                }));
+
+        new Setting(contentEl)
+            .setName('To')
+            .setDesc('Last day of the report (YYYY-MM-DD).')
+            .addText(text => text
+                .setValue(this.toKey)
+                .onChange(value => {
+                    this.toKey = value.trim();
+                }));
+
+        new Setting(contentEl)
+            .setName('Rows')
+            .addDropdown(dropdown => dropdown
+                .addOption('week', 'One row per week')
+                .addOption('day', 'One row per day')
+                .setValue(options.granularity)
+                .onChange(value => {
+                    options.granularity = value as ReportGranularity;
+                }));
+
+        let pathSetting: Setting | null = null;
+        new Setting(contentEl)
+            .setName('Format')
+            .addDropdown(dropdown => dropdown
+                .addOption('csv', 'CSV file')
+                .addOption('json', 'JSON file')
+                .addOption('markdown', 'Markdown table in the open note')
+                .setValue(options.format)
+                .onChange(value => {
+                    options.format = value as ReportFormat;
+                    pathSetting?.settingEl.toggleClass('report-hidden', options.format === 'markdown');
+                }));
+
+        pathSetting = new Setting(contentEl)
+            .setName('File')
+            .setDesc('Vault path of the report. The extension follows the format.')
+            .addText(text => text
+                .setPlaceholder('Progress Report')
+                .setValue(options.path)
+                .onChange(value => {
+                    options.path = value.trim();
+                }));
+        pathSetting.settingEl.toggleClass('report-hidden', options.format === 'markdown');
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => this.export()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private async export() {
+        const from = LocalDate.fromKey(this.fromKey);
+        const to = LocalDate.fromKey(this.toKey);
+        if (!from || !to) {
+            new Notice('Enter the report dates as YYYY-MM-DD.');
+            return;
+        }
+        if (to.compare(from) < 0) {
+            new Notice('The last day is before the first day.');
+            return;
+        }
+        if (from.daysUntil(to) >= MAX_REPORT_DAYS) {
+            new Notice(`A report covers at most ${MAX_REPORT_DAYS} days.`);
+            return;
+        }
+
+        // Remember the choices for next time
+        await this.plugin.saveData(this.plugin.settings);
+
+        const options = this.plugin.settings.progressReport;
+        const report = buildProgressReport(
+            this.plugin.getVisibleScenes(),
+            this.plugin.visibleStageNames(),
+            this.plugin.weekScheme,
+            from,
+            to,
+            options.granularity,
+            LocalDate.today()
+        );
+
+        if (options.format === 'markdown') {
+            const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+            if (!editor) {
+                new Notice('Open a note to insert the report into.');
+                return;
+            }
+            editor.replaceSelection(formatMarkdown(report));
+            new Notice(`Inserted ${report.rows.length} ${report.rows.length === 1 ? 'row' : 'rows'}.`);
+            this.close();
+            return;
+        }
+
+        const content = options.format === 'csv' ? formatCsv(report) : formatJson(report);
+        const extension = FILE_EXTENSIONS[options.format];
+        const base = (options.path || 'Progress Report').replace(/\.(csv|json|md)$/i, '');
+        const path = normalizePath(`${base}.${extension}`);
+        const { vault } = this.app;
+        try {
+            const existing = vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                await vault.modify(existing, content);
+            } else {
+                const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+                if (folder && !vault.getAbstractFileByPath(folder)) {
+                    await vault.createFolder(folder);
+                }
+                await vault.create(path, content);
+            }
+            new Notice(`Exported the progress report to ${path}.`);
+            this.close();
+        } catch (error) {
+            console.error(`Error exporting the progress report to ${path}:`, error);
+            new Notice(`Could not export to ${path}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
@@ -0,0 +1,138 @@
+import { StageDefinition, StagePipeline, DEFAULT_STAGES, cloneStages, stageSlug } from './stages';
+import { WritingGoals, DEFAULT_GOALS, hasGoals, normalizeGoals } from './goals';
+import { MilestoneDefinition, normalizeMilestones } from './milestones';
+
+// Pseudo project id for the overlay showing every project at once
+export const ALL_PROJECTS = '*';
+
+// A named manuscript with its own folders and stage pipeline
+export interface ProjectProfile {
+    // Stable key stored in settings; renaming a project keeps its id
+    id: string;
+    name: string;
+    // Folders holding the project's scenes; empty means the whole vault
+    folders: string[];
+    stages: StageDefinition[];
+    // Tint for this project's dots in the all projects overlay
+    cssColor: string;
+    // Weekly and daily quotas; a stage may override them
+    goals: WritingGoals;
+    // Deadlines such as "Manuscript to editor", next to any milestone notes
+    milestones: MilestoneDefinition[];
+}
+
+export const DEFAULT_PROJECT_COLORS = ['#4ea0fd', '#e0706c', '#57c176', '#ffb626', '#b070e0', '#3fc1c9'];
+
+// Normalise a folder path from the settings: no leading or trailing slashes
+export function normalizeFolder(folder: string): string {
+    return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+// Split a comma separated folder list from the settings
+export function parseFolderList(folders: string): string[] {
+    return folders.split(',').map(normalizeFolder).filter(folder => folder.length > 0);
+}
+
+// Build a new project with the default stages and a unique id
+export function createProject(name: string, existing: ProjectProfile[], folders: string[] = []): ProjectProfile {
+    const base = stageSlug(name);
+    let id = base;
+    for (let i = 2; existing.some(project => project.id === id); i++) {
+        id = `${base}-${i}`;
+    }
+    return {
+        id,
+        name,
+        folders,
+        stages: cloneStages(DEFAULT_STAGES),
+        cssColor: DEFAULT_PROJECT_COLORS[existing.length % DEFAULT_PROJECT_COLORS.length],
+        goals: { ...DEFAULT_GOALS },
+        milestones: []
+    };
+}
+
+// Fill in missing keys on a project loaded from settings
+export function normalizeProject(raw: Partial<ProjectProfile>, index: number): ProjectProfile {
+    const stages = Array.isArray(raw.stages) && raw.stages.length > 0
+        ? cloneStages(raw.stages.map((stage: Partial<StageDefinition>) => ({
+            ...DEFAULT_STAGES[0],
+            ...stage,
+            aliases: Array.isArray(stage.aliases) ? stage.aliases : [],
+            goals: stage.goals ? normalizeGoals(stage.goals) : undefined
+        })))
+        : cloneStages(DEFAULT_STAGES);
+    const name = raw.name || `Project ${index + 1}`;
+    return {
+        id: raw.id || stageSlug(name),
+        name,
+        folders: Array.isArray(raw.folders) ? raw.folders.map(normalizeFolder).filter(f => f.length > 0) : [],
+        stages,
+        cssColor: raw.cssColor || DEFAULT_PROJECT_COLORS[index % DEFAULT_PROJECT_COLORS.length],
+        goals: normalizeGoals(raw.goals),
+        milestones: normalizeMilestones(raw.milestones)
+    };
+}
+
+/**
+ * The configured projects together with their stage pipelines.
+ * A note belongs to the first project whose folders contain it, so a
+ * whole-vault project placed last collects everything the others don't.
+ */
+export class ProjectSet {
+    readonly projects: ProjectProfile[];
+    private pipelines: Map<string, StagePipeline> = new Map();
+
+    constructor(projects: ProjectProfile[]) {
+        this.projects = projects;
+        projects.forEach(project => {
+            // Stage classes are scoped per project so equally named stages can differ in color
+            this.pipelines.set(project.id, new StagePipeline(project.stages, project.id));
+        });
+    }
+
+    get first(): ProjectProfile {
+        return this.projects[0];
+    }
+
+    get(id: string): ProjectProfile | undefined {
+        return this.projects.find(project => project.id === id);
+    }
+
+    // Stage pipeline for a project, falling back to the first project
+    pipeline(id: string | undefined): StagePipeline {
+        return (id && this.pipelines.get(id)) || this.pipelines.get(this.first.id)!;
+    }
+
+    // Project owning a path, if any
+    projectFor(path: string): ProjectProfile | undefined {
+        return this.projects.find(project =>
+            project.folders.length === 0 ||
+            project.folders.some(folder => path === folder || path.startsWith(`${folder}/`))
+        );
+    }
+
+    // Goals in effect for a project at its current highest stage
+    goalsFor(id: string, stageName: string): WritingGoals {
+        const project = this.get(id) ?? this.first;
+        const stage = this.pipeline(project.id).get(stageName);
+        return stage && hasGoals(stage.goals) ? stage.goals! : project.goals;
+    }
+
+    isInScope(path: string): boolean {
+        return this.projectFor(path) !== undefined;
+    }
+
+    projectClass(id: string): string {
+        return `project-${stageSlug(id)}`;
+    }
+
+    // CSS rules for every project's stage colors and its overlay tint
+    buildStylesheet(): string {
+        return this.projects
+            .map(project => [
+                this.pipeline(project.id).buildStylesheet(),
+                `.${this.projectClass(project.id)} { --project-color: ${project.cssColor}; }`
+            ].join('\n'))
+            .join('\n');
+    }
+}
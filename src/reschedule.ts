@@ -0,0 +1,122 @@
+import { Notice, TFile } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { findFrontmatterKey } from './sceneIndex';
+
+// A scene to move to a new due date
+export interface SceneMove {
+    path: string;
+    to: LocalDate;
+}
+
+// A move that was written, with the frontmatter value it replaced
+interface AppliedMove {
+    path: string;
+    key: string;
+    previous: unknown;
+}
+
+const MAX_UNDO_BATCHES = 20;
+
+// Write the new date in the same style as the old value, keeping [[links]] as links
+function formatDue(date: LocalDate, previous: unknown): string {
+    if (typeof previous === 'string' && previous.trim().startsWith('[[')) {
+        return `[[${date.key}]]`;
+    }
+    return date.key;
+}
+
+/**
+ * Rewrites scene due dates through processFrontMatter. Every call is one
+ * undoable batch, and a notice with an Undo link confirms what moved.
+ */
+export class Rescheduler {
+    private plugin: ManuscriptCalendarPlugin;
+    private history: AppliedMove[][] = [];
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    canUndo(): boolean {
+        return this.history.length > 0;
+    }
+
+    // Apply the moves as one batch and return how many scenes were rewritten
+    async reschedule(moves: SceneMove[], message?: string): Promise<number> {
+        const dueField = this.plugin.settings.fieldMapping.dueField;
+        const applied: AppliedMove[] = [];
+
+        for (const move of moves) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(move.path);
+            if (!(file instanceof TFile)) continue;
+            try {
+                await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                    const key = findFrontmatterKey(frontmatter, dueField);
+                    const previous = frontmatter[key];
+                    frontmatter[key] = formatDue(move.to, previous);
+                    applied.push({ path: move.path, key, previous });
+                });
+            } catch (error) {
+                console.error(`Error rescheduling ${move.path}:`, error);
+            }
+        }
+
+        if (applied.length === 0) {
+            new Notice('No scenes were rescheduled.');
+            return 0;
+        }
+
+        this.history.push(applied);
+        if (this.history.length > MAX_UNDO_BATCHES) {
+            this.history.shift();
+        }
+        this.plugin.debugLog(`Rescheduled ${applied.length} scene(s)`, applied);
+
+        const summary = message ?? (moves.length === 1
+            ? `Moved ${moves[0].path.split('/').pop()?.replace(/\.md$/, '')} to ${moves[0].to.key}`
+            : `Rescheduled ${applied.length} scenes`);
+        this.showUndoNotice(summary);
+        return applied.length;
+    }
+
+    // Restore the due dates changed by the most recent batch
+    async undo(): Promise<boolean> {
+        const batch = this.history.pop();
+        if (!batch) {
+            new Notice('Nothing to undo.');
+            return false;
+        }
+
+        for (const move of batch) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(move.path);
+            if (!(file instanceof TFile)) continue;
+            try {
+                await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                    if (move.previous === undefined) {
+                        delete frontmatter[move.key];
+                    } else {
+                        frontmatter[move.key] = move.previous;
+                    }
+                });
+            } catch (error) {
+                console.error(`Error undoing reschedule of ${move.path}:`, error);
+            }
+        }
+
+        new Notice(`Restored ${batch.length} scene ${batch.length === 1 ? 'date' : 'dates'}.`);
+        return true;
+    }
+
+    private showUndoNotice(message: string) {
+        const fragment = document.createDocumentFragment();
+        fragment.createSpan({ text: `${message}. ` });
+        const undoLink = fragment.createEl('a', { text: 'Undo', cls: 'manuscript-calendar-undo', href: '#' });
+        const notice = new Notice(fragment, 8000);
+        undoLink.addEventListener('click', (event) => {
+            event.preventDefault();
+            notice.hide();
+            this.undo();
+        });
+    }
+}
@@ -0,0 +1,136 @@
+import { Notice, TFile, normalizePath } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { ProjectProfile } from './projects';
+import { findFrontmatterKey } from './sceneIndex';
+
+// Escape a literal piece of the name pattern for use in a regular expression
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Fill the name pattern tokens. {{number}} may carry a width, e.g. {{number:3}} -> 007
+function fillPattern(pattern: string, number: number, date: LocalDate, project: ProjectProfile): string {
+    return pattern
+        .replace(/\{\{number(?::(\d+))?\}\}/g, (_, width) => String(number).padStart(width ? parseInt(width, 10) : 0, '0'))
+        .replace(/\{\{date\}\}/g, date.key)
+        .replace(/\{\{project\}\}/g, project.name);
+}
+
+/**
+ * Creates new scene notes from the calendar: the configured template is copied
+ * into the project's first folder, and the mapped scene fields are filled in.
+ */
+export class SceneCreator {
+    private plugin: ManuscriptCalendarPlugin;
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    async createScene(date: LocalDate, projectId: string): Promise<TFile | null> {
+        const { app, settings } = this.plugin;
+        const project = this.plugin.projects.get(projectId) ?? this.plugin.projects.first;
+
+        try {
+            const folder = project.folders[0] ?? '';
+            if (folder && !app.vault.getAbstractFileByPath(folder)) {
+                await app.vault.createFolder(folder);
+            }
+
+            const name = this.nextName(project, date);
+            const path = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+            const file = await app.vault.create(path, await this.readTemplate(date, name));
+
+            // Frontmatter fields are written with the vault's own keys, reusing the template's casing
+            const mapping = settings.fieldMapping;
+            await app.fileManager.processFrontMatter(file, (frontmatter) => {
+                const set = (field: string, value: unknown) => {
+                    frontmatter[findFrontmatterKey(frontmatter, field)] = value;
+                };
+                if (mapping.sceneMatch === 'tag') {
+                    const tagsKey = findFrontmatterKey(frontmatter, 'tags');
+                    const current = frontmatter[tagsKey];
+                    const tags = Array.isArray(current) ? current : current ? [current] : [];
+                    const sceneTag = mapping.sceneTag.replace(/^#/, '');
+                    if (!tags.includes(sceneTag)) tags.push(sceneTag);
+                    frontmatter[tagsKey] = tags;
+                } else {
+                    set(mapping.classField, mapping.classValue);
+                }
+                set(mapping.statusField, 'Todo');
+                set(mapping.dueField, date.key);
+                set(mapping.publishStageField, this.plugin.projects.pipeline(project.id).first.name);
+            });
+
+            this.plugin.debugLog(`Created scene ${file.path} due ${date.key}`);
+            await app.workspace.getLeaf(true).openFile(file);
+            return file;
+        } catch (error) {
+            console.error('Error creating scene:', error);
+            new Notice(`Could not create scene: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    }
+
+    // Template content with {{date}} and {{title}} filled in, or an empty note without a template
+    private async readTemplate(date: LocalDate, name: string): Promise<string> {
+        const templatePath = this.plugin.settings.sceneTemplate.trim();
+        if (!templatePath) return '';
+
+        const template = this.plugin.app.vault.getAbstractFileByPath(normalizePath(templatePath))
+            ?? this.plugin.app.vault.getAbstractFileByPath(normalizePath(`${templatePath}.md`));
+        if (!(template instanceof TFile)) {
+            new Notice(`Scene template not found: ${templatePath}`);
+            return '';
+        }
+
+        const content = await this.plugin.app.vault.read(template);
+        return content
+            .replace(/\{\{date\}\}/g, date.key)
+            .replace(/\{\{title\}\}/g, name);
+    }
+
+    // Next free note name for the pattern, numbering after the highest existing scene number
+    private nextName(project: ProjectProfile, date: LocalDate): string {
+        const pattern = this.plugin.settings.sceneNamePattern.trim() || 'Scene {{number}}';
+        const folder = project.folders[0] ?? '';
+
+        const hasNumber = /\{\{number(?::\d+)?\}\}/.test(pattern);
+        let number = 1;
+        if (hasNumber) {
+            const matcher = new RegExp(`^${pattern
+                .split(/(\{\{number(?::\d+)?\}\}|\{\{date\}\}|\{\{project\}\})/)
+                .map(part => {
+                    if (/^\{\{number/.test(part)) return '(\\d+)';
+                    if (part === '{{date}}' || part === '{{project}}') return '.*?';
+                    return escapeRegExp(part);
+                })
+                .join('')}$`);
+            this.plugin.sceneIndex.getScenes()
+                .filter(scene => scene.project === project.id)
+                .forEach(scene => {
+                    const match = scene.name.match(matcher);
+                    if (match) {
+                        number = Math.max(number, parseInt(match[1], 10) + 1);
+                    }
+                });
+        }
+
+        // Skip names already taken by other notes; patterns without {{number}} get a suffix
+        const exists = (candidate: string) => this.plugin.app.vault.getAbstractFileByPath(
+            normalizePath(folder ? `${folder}/${candidate}.md` : `${candidate}.md`)
+        ) !== null;
+        const base = fillPattern(pattern, number, date, project);
+        let name = base;
+        for (let suffix = 2; exists(name); suffix++) {
+            if (hasNumber) {
+                number++;
+                name = fillPattern(pattern, number, date, project);
+            } else {
+                name = `${base} ${suffix}`;
+            }
+        }
+        return name;
+    }
+}
@@ -0,0 +1,98 @@
+import { App, Modal, Setting } from 'obsidian';
+import { unwrapLink } from './dates';
+import { SceneRecord, readField, toStringList } from './sceneIndex';
+import { FilterCondition } from './settings';
+
+// Values of a frontmatter field on a scene: lists are flattened, [[links]] and # dropped
+export function sceneFieldValues(scene: SceneRecord, field: string): string[] {
+    const raw = field.toLowerCase() === 'tags'
+        ? toStringList(readField(scene.fields, 'tags')).concat(toStringList(readField(scene.fields, 'tag')))
+        : toStringList(readField(scene.fields, field));
+    return raw
+        .flatMap(value => field.toLowerCase() === 'tags' ? value.split(/[\s,]+/) : [value])
+        .map(value => unwrapLink(value.replace(/^#/, '').trim()))
+        .filter(value => value.length > 0);
+}
+
+// Conditions that actually restrict something
+export function activeConditions(conditions: FilterCondition[]): FilterCondition[] {
+    return conditions.filter(condition => condition.field && condition.values.length > 0);
+}
+
+// A scene matches when, for every field, it has at least one of the chosen values (case-insensitive)
+export function matchesFilter(scene: SceneRecord, conditions: FilterCondition[]): boolean {
+    return activeConditions(conditions).every(condition => {
+        const wanted = condition.values.map(value => value.toLowerCase());
+        return sceneFieldValues(scene, condition.field).some(value => wanted.includes(value.toLowerCase()));
+    });
+}
+
+// Distinct values of a field across the scenes, for the filter menus
+export function collectFieldValues(scenes: SceneRecord[], field: string): string[] {
+    const byKey = new Map<string, string>();
+    scenes.forEach(scene => sceneFieldValues(scene, field).forEach(value => {
+        if (!byKey.has(value.toLowerCase())) byKey.set(value.toLowerCase(), value);
+    }));
+    return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+}
+
+// Short text such as "POV: Anna, Ben · Act: 2"
+export function describeFilter(conditions: FilterCondition[]): string {
+    return activeConditions(conditions)
+        .map(condition => `${condition.field}: ${condition.values.join(', ')}`)
+        .join(' · ');
+}
+
+/**
+ * Asks for the name of a filter preset.
+ */
+export class FilterPresetModal extends Modal {
+    private name: string;
+    private onSubmit: (name: string) => void;
+
+    constructor(app: App, name: string, onSubmit: (name: string) => void) {
+        super(app);
+        this.name = name;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Save filter preset' });
+
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => {
+                text
+                    .setPlaceholder('Subplot B')
+                    .setValue(this.name)
+                    .onChange(value => {
+                        this.name = value;
+                    });
+                text.inputEl.addEventListener('keydown', (event) => {
+                    if (event.key === 'Enter') this.submit();
+                });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Cancel')
+                .onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private submit() {
+        const name = this.name.trim();
+        if (!name) return;
+        this.close();
+        this.onSubmit(name);
+    }
+}
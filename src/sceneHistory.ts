@@ -0,0 +1,247 @@
+import { App, Modal, debounce, normalizePath } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { SceneRecord, isSceneComplete } from './sceneIndex';
+
+// The tracked part of a scene: what a transition changes
+interface SceneState {
+    status: string[];
+    stage: string;
+    revision: number;
+}
+
+export type TransitionField = 'status' | 'stage' | 'revision';
+
+// A scene's state right after one of the tracked fields changed
+export interface SceneTransition extends SceneState {
+    // Milliseconds since the epoch
+    time: number;
+    changed: TransitionField[];
+}
+
+// Contents of the history file
+interface SceneHistoryData {
+    // Last state seen per scene path
+    states: Record<string, SceneState>;
+    transitions: Record<string, SceneTransition[]>;
+}
+
+const HISTORY_FILE = 'scene-history.json';
+
+function stateOf(scene: SceneRecord): SceneState {
+    return { status: [...scene.status], stage: scene.publishStage, revision: scene.revision };
+}
+
+function changedFields(before: SceneState, after: SceneState): TransitionField[] {
+    const changed: TransitionField[] = [];
+    if (before.status.join('|').toLowerCase() !== after.status.join('|').toLowerCase()) changed.push('status');
+    if (before.stage !== after.stage) changed.push('stage');
+    if (before.revision !== after.revision) changed.push('revision');
+    return changed;
+}
+
+// Short label of a transition, e.g. "AUTHOR r1 Complete"
+export function describeTransition(transition: SceneTransition): string {
+    const parts = [transition.stage];
+    if (transition.revision > 0) parts.push(`r${transition.revision}`);
+    if (transition.status.length > 0) parts.push(transition.status.join(', '));
+    return parts.join(' ');
+}
+
+// Day the transition happened, in local time
+export function transitionDay(transition: SceneTransition): LocalDate {
+    return LocalDate.fromDate(new Date(transition.time));
+}
+
+// Timeline such as "ZERO Complete 3 Mar → AUTHOR r1 Working 2 Apr"
+export function formatTimeline(transitions: SceneTransition[]): string {
+    return transitions
+        .map(transition => {
+            const date = new Date(transition.time);
+            return `${describeTransition(transition)} ${date.getDate()} ${date.toLocaleString(undefined, { month: 'short' })}`;
+        })
+        .join(' → ');
+}
+
+/**
+ * Timeline of Status, Publish Stage and Revision changes per scene. Every
+ * scene index update is compared with the last state seen for the scene, and
+ * changes are stored with a timestamp in their own file next to the settings.
+ * The first sighting of a scene only records its state, and settings changes
+ * only move the baseline, so just edits to the notes become transitions.
+ */
+export class SceneHistory {
+    private plugin: ManuscriptCalendarPlugin;
+    private data: SceneHistoryData = { states: {}, transitions: {} };
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    private get path(): string {
+        return normalizePath(`${this.plugin.manifest.dir ?? ''}/${HISTORY_FILE}`);
+    }
+
+    async load() {
+        try {
+            const adapter = this.plugin.app.vault.adapter;
+            if (await adapter.exists(this.path)) {
+                const raw = JSON.parse(await adapter.read(this.path));
+                this.data = {
+                    states: raw?.states ?? {},
+                    transitions: raw?.transitions ?? {}
+                };
+            }
+        } catch (error) {
+            console.error('Error loading the scene history:', error);
+        }
+    }
+
+    async save() {
+        try {
+            await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+        } catch (error) {
+            console.error('Error saving the scene history:', error);
+        }
+    }
+
+    // Compare scenes with their last known state and log what changed
+    record(scenes: SceneRecord[]) {
+        const time = Date.now();
+        let changes = 0;
+        scenes.forEach(scene => {
+            const after = stateOf(scene);
+            const before = this.data.states[scene.path];
+            this.data.states[scene.path] = after;
+            if (!before) {
+                changes++;
+                return;
+            }
+            const changed = changedFields(before, after);
+            if (changed.length === 0) return;
+
+            const transitions = this.data.transitions[scene.path] ?? (this.data.transitions[scene.path] = []);
+            transitions.push({ ...after, time, changed });
+            changes++;
+            this.plugin.debugLog(`Scene history: ${scene.path} is now ${describeTransition(transitions[transitions.length - 1])}`, changed);
+        });
+        if (changes > 0) this.requestSave();
+    }
+
+    // Take the scenes' current states as the new baseline without logging anything.
+    // Used after settings changes, which alter the derived state of every scene.
+    rebaseline(scenes: SceneRecord[]) {
+        scenes.forEach(scene => {
+            this.data.states[scene.path] = stateOf(scene);
+        });
+        this.requestSave();
+    }
+
+    // Keep a renamed scene's timeline under its new path
+    rename(oldPath: string, newPath: string) {
+        if (this.data.states[oldPath]) {
+            this.data.states[newPath] = this.data.states[oldPath];
+            delete this.data.states[oldPath];
+        }
+        if (this.data.transitions[oldPath]) {
+            this.data.transitions[newPath] = this.data.transitions[oldPath];
+            delete this.data.transitions[oldPath];
+        }
+        this.requestSave();
+    }
+
+    transitionsFor(path: string): SceneTransition[] {
+        return this.data.transitions[path] ?? [];
+    }
+
+    // Transitions per day (YYYY-MM-DD) for the paths include accepts
+    transitionsByDay(include: (path: string) => boolean): Map<string, Array<{ path: string, transition: SceneTransition }>> {
+        const byDay = new Map<string, Array<{ path: string, transition: SceneTransition }>>();
+        Object.keys(this.data.transitions).filter(include).forEach(path => {
+            this.data.transitions[path].forEach(transition => {
+                const key = transitionDay(transition).key;
+                if (!byDay.has(key)) byDay.set(key, []);
+                byDay.get(key)!.push({ path, transition });
+            });
+        });
+        return byDay;
+    }
+
+    // Day the scene last became Complete, if the history saw it happen
+    completedOn(path: string): LocalDate | null {
+        const transitions = this.transitionsFor(path);
+        for (let i = transitions.length - 1; i >= 0; i--) {
+            const transition = transitions[i];
+            if (transition.changed.includes('status') && transition.status.some(s => s.toLowerCase() === 'complete')) {
+                return transitionDay(transition);
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Details of one scene with its stage and revision timeline.
+ */
+export class SceneDetailModal extends Modal {
+    private plugin: ManuscriptCalendarPlugin;
+    private scene: SceneRecord;
+
+    constructor(app: App, plugin: ManuscriptCalendarPlugin, scene: SceneRecord) {
+        super(app);
+        this.plugin = plugin;
+        this.scene = scene;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const scene = this.scene;
+        contentEl.empty();
+        contentEl.addClass('manuscript-scene-detail');
+        contentEl.createEl('h2', { text: scene.name });
+
+        const pipeline = this.plugin.projects.pipeline(scene.project);
+        const facts = contentEl.createEl('dl', { cls: 'scene-detail-facts' });
+        const addFact = (label: string, value: string, cls?: string) => {
+            facts.createEl('dt', { text: label });
+            facts.createEl('dd', { text: value, cls });
+        };
+        addFact('Status', scene.status.join(', ') || '—');
+        addFact('Due', scene.dueDate ? scene.dueDate.key : scene.due ?? '—');
+        addFact('Publish stage', scene.publishStage, pipeline.stageClass(scene.publishStage));
+        addFact('Revision', String(scene.revision));
+        addFact('Words', scene.words.toLocaleString());
+        const completed = scene.completedDate ?? (isSceneComplete(scene) ? this.plugin.sceneHistory.completedOn(scene.path) : null);
+        if (completed) addFact('Completed', completed.key);
+
+        contentEl.createEl('h4', { text: 'History' });
+        const transitions = this.plugin.sceneHistory.transitionsFor(scene.path);
+        if (transitions.length === 0) {
+            contentEl.createEl('p', {
+                cls: 'scene-detail-empty',
+                text: 'No changes recorded yet. Status, stage and revision changes are logged from now on.'
+            });
+        } else {
+            const list = contentEl.createEl('ol', { cls: 'scene-detail-timeline' });
+            // Newest first
+            [...transitions].reverse().forEach(transition => {
+                const item = list.createEl('li', { cls: pipeline.stageClass(transition.stage) });
+                item.createSpan({ cls: 'scene-detail-when', text: new Date(transition.time).toLocaleString() });
+                item.createSpan({ cls: 'scene-detail-state', text: describeTransition(transition) });
+                item.createSpan({ cls: 'scene-detail-changed', text: `(${transition.changed.join(', ')})` });
+            });
+        }
+
+        const actions = contentEl.createDiv({ cls: 'modal-button-container' });
+        const openButton = actions.createEl('button', { text: 'Open note', cls: 'mod-cta' });
+        openButton.addEventListener('click', () => {
+            this.close();
+            this.app.workspace.openLinkText(scene.path, '', false);
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
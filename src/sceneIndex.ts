@@ -0,0 +1,356 @@
+import { Events, TAbstractFile, TFile, debounce, getAllTags } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { SceneFieldMapping } from './settings';
+import { LocalDate, parseLocalDate, unwrapLink } from './dates';
+import { Milestone } from './milestones';
+
+// Typed view of a single scene note, independent of where the data came from
+export interface SceneRecord {
+    path: string;
+    name: string;
+    // Id of the project the scene belongs to
+    project: string;
+    status: string[];
+    due: string | null;
+    dueDate: LocalDate | null;
+    // Day the scene was finished, when the vault records it
+    completedDate: LocalDate | null;
+    publishStage: string;
+    revision: number;
+    words: number;
+    fields: Record<string, unknown>;
+}
+
+// Helper to flatten a frontmatter value that may be a list into trimmed strings
+export function toStringList(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values
+        .filter(v => v !== undefined && v !== null)
+        .map(v => String(v).trim())
+        .filter(v => v.length > 0);
+}
+
+// Helper to parse word count from metadata
+export function parseWordCount(wordCount: unknown): number {
+    if (typeof wordCount === 'number') {
+        return wordCount;
+    }
+
+    if (typeof wordCount === 'string') {
+        // Remove commas and any whitespace
+        const cleanCount = wordCount.replace(/,/g, '').trim();
+        const parsed = parseInt(cleanCount, 10);
+        return isNaN(parsed) ? 0 : parsed;
+    }
+
+    return 0;
+}
+
+// Look up a mapped field, trying the exact key first and then a case-insensitive match
+export function readField(fields: Record<string, unknown>, key: string): unknown {
+    if (!key) return undefined;
+    if (fields[key] !== undefined) return fields[key];
+    const lowerKey = key.toLowerCase();
+    const match = Object.keys(fields).find(k => k.toLowerCase() === lowerKey);
+    return match !== undefined ? fields[match] : undefined;
+}
+
+// Find the frontmatter key to write a mapped field to, reusing an existing key in any case
+export function findFrontmatterKey(frontmatter: Record<string, unknown>, field: string): string {
+    const lowerKey = field.toLowerCase();
+    return Object.keys(frontmatter).find(key => key.toLowerCase() === lowerKey) ?? field;
+}
+
+// Split a comma separated list of keys from the settings
+export function parseKeyList(keys: string): string[] {
+    return keys.split(',').map(k => k.trim()).filter(k => k.length > 0);
+}
+
+// Case-insensitive status check used throughout the view
+export function sceneHasStatus(scene: SceneRecord | undefined | null, status: string): boolean {
+    if (!scene) return false;
+    const target = status.toLowerCase();
+    return scene.status.some(s => s.toLowerCase() === target);
+}
+
+export function isSceneComplete(scene: SceneRecord | undefined | null): boolean {
+    return sceneHasStatus(scene, 'Complete');
+}
+
+// Looks up the day a scene was logged as completed
+export type CompletionLookup = (path: string) => LocalDate | null;
+
+// Day a scene was finished according to its Completed field or the scene history
+export function finishedOn(scene: SceneRecord, completedOn: CompletionLookup): LocalDate | null {
+    return scene.completedDate ?? completedOn(scene.path);
+}
+
+// Extract the raw date string from a Due value (plain string, Dataview link or [[wikilink]])
+function readDueValue(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') return null;
+    if (Array.isArray(value)) return readDueValue(value[0]);
+    if (typeof value === 'object') {
+        const obj = value as { path?: unknown };
+        if (typeof obj.path === 'string') return readDueValue(obj.path);
+        return String(value);
+    }
+    // Links to daily notes may carry a folder and extension
+    return unwrapLink(String(value).trim()) || null;
+}
+
+function milestoneSignature(milestone: Milestone | null | undefined): string {
+    return milestone ? `${milestone.name}|${milestone.date.key}|${milestone.project}` : '';
+}
+
+// Stable string used to detect whether a scene actually changed
+function recordSignature(record: SceneRecord | null | undefined): string {
+    if (!record) return '';
+    try {
+        return JSON.stringify(record);
+    } catch (error) {
+        // Fall back to the typed fields if a value cannot be serialized
+        return JSON.stringify({ ...record, fields: null });
+    }
+}
+
+/**
+ * Persistent scene index built directly on Obsidian's metadata cache.
+ * Dataview is used as an optional accelerator: when it is installed its page
+ * objects also expose inline fields, otherwise frontmatter alone is used.
+ *
+ * File events are queued and flushed together after a short pause. Only the
+ * affected entries are rebuilt, and a 'changed' event is triggered with the
+ * paths whose scene data actually differs (or null after a full rebuild).
+ */
+export class SceneIndex extends Events {
+    private plugin: ManuscriptCalendarPlugin;
+    private scenes: Map<string, SceneRecord> = new Map();
+    // Milestone notes are indexed alongside the scenes, but are never scenes
+    private milestones: Map<string, Milestone> = new Map();
+    private dirty = true;
+    private pending: Set<string> = new Set();
+    private requestFlush = debounce(() => this.flush(), 300, true);
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        super();
+        this.plugin = plugin;
+    }
+
+    // Mark the index as stale so the next read rebuilds it
+    invalidate() {
+        this.dirty = true;
+    }
+
+    // Queue a created or modified file for re-indexing
+    queueUpdate(file: TAbstractFile) {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+        // Files outside the folder only matter if they used to be scenes or milestones
+        if (!this.isInScope(file.path) && !this.isIndexed(file.path)) return;
+        this.pending.add(file.path);
+        this.requestFlush();
+    }
+
+    queueRemoval(file: TAbstractFile) {
+        if (!this.isIndexed(file.path)) return;
+        this.pending.add(file.path);
+        this.requestFlush();
+    }
+
+    queueRename(file: TAbstractFile, oldPath: string) {
+        if (this.isIndexed(oldPath)) {
+            this.pending.add(oldPath);
+        }
+        this.queueUpdate(file);
+        this.requestFlush();
+    }
+
+    // Apply all queued updates and notify listeners about what changed
+    flush() {
+        this.requestFlush.cancel();
+        if (this.dirty) {
+            this.pending.clear();
+            this.rebuild();
+            this.trigger('changed', null);
+            return;
+        }
+        if (this.pending.size === 0) return;
+
+        const changed: string[] = [];
+        this.pending.forEach(path => {
+            const previous = this.scenes.get(path);
+            const previousMilestone = this.milestones.get(path);
+            const file = this.plugin.app.vault.getAbstractFileByPath(path);
+            const record = file instanceof TFile && this.isInScope(path) ? this.buildRecord(file) : null;
+            const milestone = file instanceof TFile && this.isInScope(path) && !record ? this.buildMilestone(file) : null;
+
+            if (record) {
+                this.scenes.set(path, record);
+            } else {
+                this.scenes.delete(path);
+            }
+            if (milestone) {
+                this.milestones.set(path, milestone);
+            } else {
+                this.milestones.delete(path);
+            }
+
+            if (recordSignature(previous) !== recordSignature(record) || milestoneSignature(previousMilestone) !== milestoneSignature(milestone)) {
+                changed.push(path);
+            }
+        });
+        this.pending.clear();
+
+        if (changed.length > 0) {
+            this.plugin.debugLog(`Scene index updated ${changed.length} scene(s):`, changed);
+            this.trigger('changed', changed);
+        }
+    }
+
+    getScenes(): SceneRecord[] {
+        if (this.dirty) {
+            this.rebuild();
+        }
+        return Array.from(this.scenes.values());
+    }
+
+    getScene(path: string): SceneRecord | undefined {
+        if (this.dirty) {
+            this.rebuild();
+        }
+        return this.scenes.get(path);
+    }
+
+    // Milestone notes in the folders of every project
+    getMilestones(): Milestone[] {
+        if (this.dirty) {
+            this.rebuild();
+        }
+        return Array.from(this.milestones.values());
+    }
+
+    private isIndexed(path: string): boolean {
+        return this.scenes.has(path) || this.milestones.has(path);
+    }
+
+    // Check whether a path falls inside the folders of any project
+    isInScope(path: string): boolean {
+        return this.plugin.projects.isInScope(path);
+    }
+
+    rebuild() {
+        this.scenes.clear();
+        this.milestones.clear();
+        const files = this.plugin.app.vault.getMarkdownFiles().filter(file => this.isInScope(file.path));
+        files.forEach(file => {
+            const record = this.buildRecord(file);
+            if (record) {
+                this.scenes.set(file.path, record);
+                return;
+            }
+            const milestone = this.buildMilestone(file);
+            if (milestone) {
+                this.milestones.set(file.path, milestone);
+            }
+        });
+        this.dirty = false;
+        this.plugin.debugLog(`Scene index rebuilt: ${this.scenes.size} scenes from ${files.length} files`);
+    }
+
+    // Read the metadata for a file. Frontmatter from the metadata cache is always
+    // current; Dataview (when installed) adds inline fields on top of it.
+    private readFields(file: TFile): Record<string, unknown> | null {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        let inlineFields: Record<string, unknown> | undefined;
+
+        const dataviewApi = this.plugin.app.plugins.plugins.dataview?.api;
+        if (dataviewApi && typeof dataviewApi.page === 'function') {
+            try {
+                const page = dataviewApi.page(file.path);
+                if (page) {
+                    // Skip Dataview's implicit file metadata (size, mtime, links...)
+                    inlineFields = { ...page };
+                    delete inlineFields.file;
+                }
+            } catch (error) {
+                this.plugin.debugLog(`Dataview lookup failed for ${file.path}, using metadata cache`, error);
+            }
+        }
+
+        if (!frontmatter && !inlineFields) return null;
+        return { ...(inlineFields ?? {}), ...(frontmatter ?? {}) };
+    }
+
+    // Decide whether a note is a scene using either the class field or a tag
+    private isScene(file: TFile, fields: Record<string, unknown>, mapping: SceneFieldMapping): boolean {
+        if (mapping.sceneMatch === 'tag') {
+            const wanted = mapping.sceneTag.replace(/^#/, '').toLowerCase();
+            if (!wanted) return false;
+            const cache = this.plugin.app.metadataCache.getFileCache(file);
+            const tags = (cache ? getAllTags(cache) ?? [] : [])
+                .concat(toStringList(readField(fields, 'tags')))
+                .map(tag => tag.replace(/^#/, '').toLowerCase());
+            return tags.some(tag => tag === wanted || tag.startsWith(`${wanted}/`));
+        }
+
+        const wantedClass = mapping.classValue.trim().toLowerCase();
+        return toStringList(readField(fields, mapping.classField))
+            .some(value => value.toLowerCase() === wantedClass);
+    }
+
+    private buildRecord(file: TFile): SceneRecord | null {
+        const fields = this.readFields(file);
+        if (!fields) return null;
+
+        const project = this.plugin.projects.projectFor(file.path);
+        if (!project) return null;
+
+        const mapping = this.plugin.settings.fieldMapping;
+        if (!this.isScene(file, fields, mapping)) return null;
+
+        const rawDue = readField(fields, mapping.dueField);
+        const dueDate = parseLocalDate(rawDue);
+        // Keep the normalised key when the value parsed, the raw text otherwise
+        const due = dueDate ? dueDate.key : readDueValue(rawDue);
+
+        // Use the first word count key that has a value
+        const wordsKey = parseKeyList(mapping.wordsField).find(key => readField(fields, key));
+        const rawRevision = readField(fields, mapping.revisionField);
+        const fieldWords = wordsKey ? parseWordCount(readField(fields, wordsKey)) : 0;
+        // Body counts arrive asynchronously; the field value stands in until then
+        const words = this.plugin.settings.wordCount.source === 'body'
+            ? this.plugin.wordCounter.wordsFor(file) ?? fieldWords
+            : fieldWords;
+
+        return {
+            path: file.path,
+            name: file.basename,
+            project: project.id,
+            status: toStringList(readField(fields, mapping.statusField)),
+            due,
+            dueDate,
+            completedDate: parseLocalDate(readField(fields, mapping.completedField)),
+            // Names and aliases resolve through the project's stage pipeline
+            publishStage: this.plugin.projects.pipeline(project.id).resolve(toStringList(readField(fields, mapping.publishStageField))[0]).name,
+            revision: typeof rawRevision === 'number' ? rawRevision : parseWordCount(rawRevision),
+            words,
+            fields
+        };
+    }
+
+    // A note whose class field holds the milestone value and whose date field parses
+    private buildMilestone(file: TFile): Milestone | null {
+        const mapping = this.plugin.settings.fieldMapping;
+        const wanted = mapping.milestoneClassValue.trim().toLowerCase();
+        if (!wanted) return null;
+
+        const fields = this.readFields(file);
+        if (!fields) return null;
+        const isMilestone = toStringList(readField(fields, mapping.classField)).some(value => value.toLowerCase() === wanted);
+        const date = isMilestone ? parseLocalDate(readField(fields, mapping.milestoneDateField)) : null;
+        const project = this.plugin.projects.projectFor(file.path);
+        if (!date || !project) return null;
+
+        return { name: file.basename, date, project: project.id, path: file.path };
+    }
+}
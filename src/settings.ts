@@ -0,0 +1,221 @@
+import { ProjectProfile, createProject } from './projects';
+import { WeekNumbering } from './weeks';
+
+// How a note is recognised as a scene
+export type SceneMatchMode = 'class' | 'tag';
+
+// Maps each logical scene field to the frontmatter key (or Dataview inline field) a vault uses
+export interface SceneFieldMapping {
+    sceneMatch: SceneMatchMode;
+    classField: string;
+    classValue: string;
+    sceneTag: string;
+    statusField: string;
+    dueField: string;
+    publishStageField: string;
+    revisionField: string;
+    // Comma separated, the first key with a value wins
+    wordsField: string;
+    // Optional date the scene was finished, used for the overdue statistics
+    completedField: string;
+    // Class value and date key of milestone notes
+    milestoneClassValue: string;
+    milestoneDateField: string;
+}
+
+// Layout of the calendar view
+export type ViewMode = 'week' | 'month' | 'quarter' | 'year';
+
+// How the schedule planner fills writing days
+export type PlanPace = 'even' | 'scenes' | 'words';
+
+// Planner choices remembered between runs
+export interface PlannerSettings {
+    // Weekdays with writing sessions, 0 = Sunday ... 6 = Saturday
+    writingDays: number[];
+    pace: PlanPace;
+    // Scenes or words per writing day, depending on the pace
+    amount: number;
+}
+
+// Where scene word counts come from
+export type WordCountSource = 'field' | 'body';
+
+// Parts of a note left out when counting its body
+export interface WordCountExclusions {
+    frontmatter: boolean;
+    // <!-- html comments -->
+    comments: boolean;
+    // %% Obsidian comments %%
+    obsidianComments: boolean;
+    callouts: boolean;
+    headings: boolean;
+    code: boolean;
+}
+
+export interface WordCountSettings {
+    source: WordCountSource;
+    exclusions: WordCountExclusions;
+    // Store the counted words in the first Words field of the scene
+    writeBack: boolean;
+}
+
+export const DEFAULT_WORD_COUNT_SETTINGS: WordCountSettings = {
+    source: 'field',
+    exclusions: {
+        frontmatter: true,
+        comments: true,
+        obsidianComments: true,
+        callouts: false,
+        headings: true,
+        code: true
+    },
+    writeBack: false
+};
+
+// Where and when the scene deadlines are written as an .ics file
+export interface IcsExportSettings {
+    // Vault path of the .ics file
+    path: string;
+    // Rewrite the file whenever scenes change
+    autoExport: boolean;
+}
+
+// Scenes must have one of the values in the field; conditions on several fields must all hold
+export interface FilterCondition {
+    field: string;
+    values: string[];
+}
+
+// A named filter saved from the filter bar
+export interface FilterPreset {
+    name: string;
+    conditions: FilterCondition[];
+}
+
+export type ReportFormat = 'csv' | 'json' | 'markdown';
+export type ReportGranularity = 'day' | 'week';
+
+// Progress report choices remembered between runs
+export interface ProgressReportSettings {
+    format: ReportFormat;
+    granularity: ReportGranularity;
+    // Vault path of CSV and JSON reports, without the extension
+    path: string;
+}
+
+export type ColorMode = 'stage' | 'subplot' | 'pov' | 'status' | 'field';
+
+// What the calendar dots are colored by
+export interface ColorSettings {
+    mode: ColorMode;
+    subplotField: string;
+    povField: string;
+    // Frontmatter key used by the 'field' mode
+    field: string;
+    // Colors per field and value, both keyed lowercase; other values get an automatic color
+    palettes: Record<string, Record<string, string>>;
+}
+
+export const DEFAULT_COLOR_SETTINGS: ColorSettings = {
+    mode: 'stage',
+    subplotField: 'Subplot',
+    povField: 'POV',
+    field: '',
+    palettes: {
+        status: { todo: '#8e8e8e', working: '#FF69B4', complete: '#57c176' }
+    }
+};
+
+// Define plugin settings interface
+export interface ManuscriptCalendarSettings {
+    defaultPublishStage?: string;
+    debugMode?: boolean;
+    fieldMapping: SceneFieldMapping;
+    projects: ProjectProfile[];
+    // Project shown in the calendar, or ALL_PROJECTS for the overlay
+    activeProject: string;
+    viewMode: ViewMode;
+    // First weekday of a calendar row, 0 = Sunday ... 6 = Saturday
+    weekStart: number;
+    weekNumbering: WeekNumbering;
+    // YYYY-MM-DD, used by project relative week numbers
+    projectStart: string;
+    // Template note copied for scenes created from the calendar
+    sceneTemplate: string;
+    // Name for new scenes; {{number}} counts up from the highest existing scene
+    sceneNamePattern: string;
+    // Last choices made in the schedule planner
+    planner: PlannerSettings;
+    wordCount: WordCountSettings;
+    // Show the words written per day from the word history instead of completed scenes' words
+    showWordsWritten: boolean;
+    icsExport: IcsExportSettings;
+    // Vault paths of .ics files shown as read-only events
+    icsImports: string[];
+    progressReport: ProgressReportSettings;
+    // Frontmatter fields offered in the filter bar
+    filterFields: string[];
+    // Active filter; empty shows every scene
+    filter: FilterCondition[];
+    filterPresets: FilterPreset[];
+    showFilterBar: boolean;
+    colors: ColorSettings;
+}
+
+export const DEFAULT_FIELD_MAPPING: SceneFieldMapping = {
+    sceneMatch: 'class',
+    classField: 'Class',
+    classValue: 'Scene',
+    sceneTag: 'scene',
+    statusField: 'Status',
+    dueField: 'Due',
+    publishStageField: 'Publish Stage',
+    revisionField: 'Revision',
+    wordsField: 'Words, Word Count',
+    completedField: 'Completed',
+    milestoneClassValue: 'Milestone',
+    milestoneDateField: 'Date'
+};
+
+export const DEFAULT_PLANNER_SETTINGS: PlannerSettings = {
+    writingDays: [1, 2, 3, 4, 5],
+    pace: 'even',
+    amount: 1
+};
+
+// Deep copy, so palette edits never touch the defaults
+export function copyColorSettings(colors: ColorSettings): ColorSettings {
+    const palettes: Record<string, Record<string, string>> = {};
+    Object.entries(colors.palettes ?? {}).forEach(([field, palette]) => {
+        palettes[field] = { ...palette };
+    });
+    return { ...colors, palettes };
+}
+
+const DEFAULT_PROJECT = createProject('Manuscript', []);
+
+// Define default settings
+export const DEFAULT_SETTINGS: ManuscriptCalendarSettings = {
+    debugMode: false,
+    fieldMapping: { ...DEFAULT_FIELD_MAPPING },
+    projects: [DEFAULT_PROJECT],
+    activeProject: DEFAULT_PROJECT.id,
+    viewMode: 'month',
+    weekStart: 0,
+    weekNumbering: 'us',
+    projectStart: '',
+    sceneTemplate: '',
+    sceneNamePattern: 'Scene {{number}}',
+    planner: { ...DEFAULT_PLANNER_SETTINGS, writingDays: [...DEFAULT_PLANNER_SETTINGS.writingDays] },
+    wordCount: { ...DEFAULT_WORD_COUNT_SETTINGS, exclusions: { ...DEFAULT_WORD_COUNT_SETTINGS.exclusions } },
+    showWordsWritten: false,
+    icsExport: { path: 'Manuscript Calendar.ics', autoExport: false },
+    icsImports: [],
+    progressReport: { format: 'csv', granularity: 'week', path: 'Progress Report' },
+    filterFields: ['Subplot', 'Character', 'POV', 'Act', 'tags'],
+    filter: [],
+    filterPresets: [],
+    showFilterBar: false,
+    colors: copyColorSettings(DEFAULT_COLOR_SETTINGS)
+};
@@ -0,0 +1,114 @@
+import { WritingGoals } from './goals';
+
+// A single step in the publish stage pipeline, ordered lowest to highest
+export interface StageDefinition {
+    name: string;
+    aliases: string[];
+    cssColor: string;
+    icon: string;
+    // Replaces the project goals while this is the project's highest stage
+    goals?: WritingGoals;
+}
+
+export const DEFAULT_STAGES: StageDefinition[] = [
+    { name: 'ZERO', aliases: [], cssColor: '#b070e0', icon: 'circle-slash' },
+    { name: 'AUTHOR', aliases: ['First'], cssColor: '#4ea0fd', icon: 'smile' },
+    { name: 'HOUSE', aliases: ['Editing'], cssColor: '#ffb626', icon: 'landmark' },
+    { name: 'PRESS', aliases: [], cssColor: '#57c176', icon: 'printer' }
+];
+
+// Copy stage definitions so edits in settings never touch the defaults
+export function cloneStages(stages: StageDefinition[]): StageDefinition[] {
+    return stages.map(stage => ({
+        ...stage,
+        aliases: [...stage.aliases],
+        ...(stage.goals ? { goals: { ...stage.goals } } : {})
+    }));
+}
+
+// Short base-36 hash of a string (FNV-1a)
+function shortHash(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash.toString(36);
+}
+
+// Turn a stage name into a CSS-safe slug, e.g. "Table Read" -> "table-read".
+// Names with characters outside ASCII, or without any letter or digit, get a
+// hash of the name so that "草稿" and "Черновик" don't share a class.
+export function stageSlug(name: string): string {
+    const key = name.trim().toLowerCase();
+    const slug = key.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    if (slug && /^[\x20-\x7e]*$/.test(key)) return slug;
+    return `${slug || 'stage'}-${shortHash(key)}`;
+}
+
+/**
+ * Ordered stage pipeline used by the index, dots, header and tooltips.
+ * The first stage is the zero draft: its revised scenes get the split/revised dots.
+ */
+export class StagePipeline {
+    readonly stages: StageDefinition[];
+    // Prefix for stage classes, so pipelines of different projects don't clash
+    readonly scope: string;
+    private lookup: Map<string, StageDefinition> = new Map();
+
+    constructor(stages: StageDefinition[], scope = '') {
+        this.stages = stages.length > 0 ? stages : cloneStages(DEFAULT_STAGES);
+        this.scope = scope ? stageSlug(scope) : '';
+        this.stages.forEach(stage => {
+            [stage.name, ...stage.aliases].forEach(label => {
+                const key = label.trim().toUpperCase();
+                if (key && !this.lookup.has(key)) {
+                    this.lookup.set(key, stage);
+                }
+            });
+        });
+    }
+
+    get first(): StageDefinition {
+        return this.stages[0];
+    }
+
+    // Resolve a raw Publish Stage value (name or alias, any case). Unknown or
+    // missing values fall back to the first stage.
+    resolve(raw: string | undefined | null): StageDefinition {
+        if (!raw) return this.first;
+        return this.lookup.get(raw.trim().toUpperCase()) ?? this.first;
+    }
+
+    get(name: string): StageDefinition | undefined {
+        return this.stages.find(stage => stage.name === name);
+    }
+
+    rank(name: string): number {
+        const index = this.stages.findIndex(stage => stage.name === name);
+        return index < 0 ? 0 : index;
+    }
+
+    // Highest stage among the given names; the first stage when there are none
+    highest(names: string[]): StageDefinition {
+        return this.stages[Math.max(0, ...names.map(name => this.rank(name)))];
+    }
+
+    isFirst(name: string): boolean {
+        return this.rank(name) === 0;
+    }
+
+    stageClass(name: string): string {
+        return this.scope ? `stage-${this.scope}-${stageSlug(name)}` : `stage-${stageSlug(name)}`;
+    }
+
+    icon(name: string): string {
+        return this.get(name)?.icon || 'circle';
+    }
+
+    // CSS rules exposing each stage color as --stage-color on its stage class
+    buildStylesheet(): string {
+        return this.stages
+            .map(stage => `.${this.stageClass(stage.name)} { --stage-color: ${stage.cssColor}; }`)
+            .join('\n');
+    }
+}
@@ -0,0 +1,229 @@
+import { App, Modal } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { formatForecastDate } from './forecast';
+import { CompletionLookup, SceneRecord, finishedOn, isSceneComplete } from './sceneIndex';
+import { WeekScheme } from './weeks';
+
+// Completed output of one week, for the words per week chart
+export interface WeekOutput {
+    weekStart: LocalDate;
+    scenes: number;
+    words: number;
+}
+
+export interface SceneStatistics {
+    completedScenes: number;
+    // Consecutive days with a completed scene, ending today (or yesterday)
+    currentStreak: number;
+    longestStreak: number;
+    // Over completed scenes that have a word count; null when none do
+    averageWords: number | null;
+    weeks: WeekOutput[];
+    // Scenes due up to today, and how many of those are complete
+    plannedScenes: number;
+    plannedComplete: number;
+    // Over completed scenes with a known completion day; null when none have one
+    averageDaysOverdue: number | null;
+    datedCompletions: number;
+}
+
+const CHART_WEEKS = 12;
+
+/**
+ * Derive the statistics panel numbers from the scene index. Unlike the
+ * calendar, which credits completed scenes on their due date, completed scenes
+ * are credited on the day they were finished (their Completed field or the
+ * scene history), falling back to the due date, and only up to today.
+ */
+export function computeStatistics(scenes: SceneRecord[], weekScheme: WeekScheme, today: LocalDate, completedOn: CompletionLookup = () => null): SceneStatistics {
+    // Day a scene counts as finished: when it was finished, otherwise its due date
+    const completionDay = (scene: SceneRecord) => finishedOn(scene, completedOn) ?? scene.dueDate;
+
+    const completed = scenes.filter(scene => {
+        const day = completionDay(scene);
+        return isSceneComplete(scene) && day !== null && day.compare(today) <= 0;
+    });
+
+    // Streaks over the distinct days with a completed scene
+    const days = Array.from(new Set(completed.map(scene => completionDay(scene)!.key)))
+        .map(key => LocalDate.fromKey(key)!)
+        .sort((a, b) => a.compare(b));
+    let longestStreak = 0;
+    let run = 0;
+    days.forEach((day, index) => {
+        run = index > 0 && days[index - 1].daysUntil(day) === 1 ? run + 1 : 1;
+        longestStreak = Math.max(longestStreak, run);
+    });
+    // A streak is still alive until a whole day passes without a finished scene
+    const last = days[days.length - 1];
+    const currentStreak = last && last.daysUntil(today) <= 1 ? run : 0;
+
+    const withWords = completed.filter(scene => scene.words > 0);
+    const averageWords = withWords.length > 0
+        ? Math.round(withWords.reduce((sum, scene) => sum + scene.words, 0) / withWords.length)
+        : null;
+
+    // Completed output of the last weeks, oldest first
+    const currentWeek = weekScheme.startOf(today);
+    const weeks: WeekOutput[] = [];
+    for (let i = CHART_WEEKS - 1; i >= 0; i--) {
+        weeks.push({ weekStart: currentWeek.addDays(-7 * i), scenes: 0, words: 0 });
+    }
+    completed.forEach(scene => {
+        const weekStart = weekScheme.startOf(completionDay(scene)!);
+        const week = weeks.find(w => w.weekStart.equals(weekStart));
+        if (week) {
+            week.scenes++;
+            week.words += scene.words;
+        }
+    });
+
+    const planned = scenes.filter(scene => scene.dueDate && scene.dueDate.compare(today) <= 0);
+
+    const timed = completed.filter(scene => scene.dueDate && finishedOn(scene, completedOn));
+    const averageDaysOverdue = timed.length > 0
+        ? timed.reduce((sum, scene) => sum + Math.max(0, scene.dueDate!.daysUntil(finishedOn(scene, completedOn)!)), 0) / timed.length
+        : null;
+
+    return {
+        completedScenes: completed.length,
+        currentStreak,
+        longestStreak,
+        averageWords,
+        weeks,
+        plannedScenes: planned.length,
+        plannedComplete: planned.filter(scene => isSceneComplete(scene)).length,
+        averageDaysOverdue,
+        datedCompletions: timed.length
+    };
+}
+
+// Bar chart of words per week; weeks without words still get an empty slot
+function createWeeksChart(weeks: WeekOutput[]): SVGElement {
+    const ns = "http://www.w3.org/2000/svg";
+    const barWidth = 10;
+    const chartHeight = 60;
+    const svg = document.createElementNS(ns, "svg");
+    svg.setAttribute("viewBox", `0 0 ${weeks.length * barWidth} ${chartHeight}`);
+    svg.setAttribute("preserveAspectRatio", "none");
+    svg.classList.add("stats-chart");
+
+    const maxWords = Math.max(1, ...weeks.map(week => week.words));
+    weeks.forEach((week, index) => {
+        const barHeight = week.words > 0 ? Math.max(1, (week.words / maxWords) * chartHeight) : 0;
+        const bar = document.createElementNS(ns, "rect");
+        bar.setAttribute("x", String(index * barWidth + 1));
+        bar.setAttribute("y", (chartHeight - barHeight).toFixed(2));
+        bar.setAttribute("width", String(barWidth - 2));
+        bar.setAttribute("height", barHeight.toFixed(2));
+        bar.classList.add("stats-chart-bar");
+        if (index === weeks.length - 1) bar.classList.add("is-current");
+
+        const title = document.createElementNS(ns, "title");
+        title.textContent = `Week of ${week.weekStart.key}: ${week.words.toLocaleString()} words, ${week.scenes} ${week.scenes === 1 ? 'scene' : 'scenes'}`;
+        bar.appendChild(title);
+        svg.appendChild(bar);
+    });
+    return svg;
+}
+
+/**
+ * Statistics panel opened from the calendar header: streaks, averages,
+ * words per week and how well the schedule is being kept.
+ */
+export class StatisticsModal extends Modal {
+    private plugin: ManuscriptCalendarPlugin;
+
+    constructor(app: App, plugin: ManuscriptCalendarPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('manuscript-statistics');
+
+        const projectName = this.plugin.isAllProjects()
+            ? 'All projects'
+            : this.plugin.projects.get(this.plugin.settings.activeProject)?.name ?? this.plugin.projects.first.name;
+        contentEl.createEl('h2', { text: `Statistics: ${projectName}` });
+
+        const stats = computeStatistics(
+            this.plugin.getVisibleScenes(),
+            this.plugin.weekScheme,
+            LocalDate.today(),
+            path => this.plugin.sceneHistory.completedOn(path)
+        );
+        if (stats.completedScenes === 0 && stats.plannedScenes === 0) {
+            contentEl.createEl('p', { cls: 'stats-empty', text: 'No scenes are due or complete yet.' });
+            return;
+        }
+
+        const grid = contentEl.createDiv({ cls: 'stats-grid' });
+        const addTile = (label: string, value: string, detail?: string, target: HTMLElement = grid) => {
+            const tile = target.createDiv({ cls: 'stats-tile' });
+            tile.createDiv({ cls: 'stats-value', text: value });
+            tile.createDiv({ cls: 'stats-label', text: label });
+            if (detail) tile.createDiv({ cls: 'stats-detail', text: detail });
+        };
+        const days = (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+        addTile('Current streak', days(stats.currentStreak), 'Days in a row with a completed scene');
+        addTile('Longest streak', days(stats.longestStreak));
+        addTile('Completed scenes', stats.completedScenes.toLocaleString());
+        addTile('Average words', stats.averageWords === null ? '—' : stats.averageWords.toLocaleString(), 'Per completed scene with a word count');
+        addTile(
+            'Completion rate',
+            stats.plannedScenes > 0 ? `${Math.round((stats.plannedComplete / stats.plannedScenes) * 100)}%` : '—',
+            `${stats.plannedComplete} of ${stats.plannedScenes} scenes due so far`
+        );
+        addTile(
+            'Average days overdue',
+            stats.averageDaysOverdue === null ? '—' : stats.averageDaysOverdue.toFixed(1),
+            stats.datedCompletions > 0
+                ? `Over ${stats.datedCompletions} scenes with a known completion day`
+                : `Needs a ${this.plugin.settings.fieldMapping.completedField} date or a logged completion`
+        );
+
+        // The overlay mixes stage pipelines, so only a single project gets a forecast
+        const forecast = this.plugin.getForecast();
+        if (forecast && forecast.remainingScenes > 0) {
+            const forecastSection = contentEl.createDiv({ cls: 'stats-forecast' });
+            forecastSection.createEl('h4', { text: `Forecast: ${forecast.stage} stage` });
+            const forecastGrid = forecastSection.createDiv({ cls: 'stats-grid' });
+            addTile(
+                'Projected finish',
+                formatForecastDate(forecast.expected),
+                `${formatForecastDate(forecast.optimistic)} to ${formatForecastDate(forecast.pessimistic)}`,
+                forecastGrid
+            );
+            addTile(
+                'Remaining',
+                `${forecast.remainingScenes} ${forecast.remainingScenes === 1 ? 'scene' : 'scenes'}`,
+                `About ${forecast.remainingWords.toLocaleString()} words`,
+                forecastGrid
+            );
+            addTile(
+                'Pace',
+                `${forecast.scenesPerWeek.toFixed(1)} scenes a week`,
+                `${Math.round(forecast.wordsPerWeek).toLocaleString()} words a week over the last ${forecast.weeksSampled} ${forecast.weeksSampled === 1 ? 'week' : 'weeks'}`,
+                forecastGrid
+            );
+        }
+
+        const chartSection = contentEl.createDiv({ cls: 'stats-chart-section' });
+        const total = stats.weeks.reduce((sum, week) => sum + week.words, 0);
+        chartSection.createEl('h4', { text: `Words per week (last ${stats.weeks.length} weeks)` });
+        chartSection.appendChild(createWeeksChart(stats.weeks));
+        const axis = chartSection.createDiv({ cls: 'stats-chart-axis' });
+        axis.createSpan({ text: stats.weeks[0].weekStart.key });
+        axis.createSpan({ text: `${Math.round(total / stats.weeks.length).toLocaleString()} words per week on average` });
+        axis.createSpan({ text: 'This week' });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
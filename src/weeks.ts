@@ -0,0 +1,72 @@
+import { LocalDate } from './dates';
+
+// How the W column numbers weeks
+export type WeekNumbering = 'us' | 'iso' | 'project';
+
+export const WEEKDAY_LABELS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// ISO-8601 week number: weeks start on Monday and week 1 holds the year's first Thursday
+function isoWeekNumber(date: LocalDate): number {
+    const thursday = date.addDays(3 - ((date.dayOfWeek() + 6) % 7));
+    const firstOfYear = LocalDate.of(thursday.year, 1, 1);
+    return Math.floor(firstOfYear.daysUntil(thursday) / 7) + 1;
+}
+
+/**
+ * Week layout used by the grid, the weekly ratio buckets and the W column.
+ * weekStart is the first weekday of a row (0 = Sunday ... 6 = Saturday).
+ */
+export class WeekScheme {
+    readonly weekStart: number;
+    readonly numbering: WeekNumbering;
+    readonly projectStart: LocalDate | null;
+
+    constructor(weekStart: number, numbering: WeekNumbering, projectStart: LocalDate | null) {
+        this.weekStart = Number.isInteger(weekStart) && weekStart >= 0 && weekStart <= 6 ? weekStart : 0;
+        // Project weeks need a start date; without one fall back to US numbering
+        this.numbering = numbering === 'project' && !projectStart ? 'us' : numbering;
+        this.projectStart = projectStart;
+    }
+
+    // First day of the week row containing date
+    startOf(date: LocalDate): LocalDate {
+        return date.addDays(-((date.dayOfWeek() - this.weekStart + 7) % 7));
+    }
+
+    isSameWeek(date1: LocalDate, date2: LocalDate): boolean {
+        return this.startOf(date1).equals(this.startOf(date2));
+    }
+
+    // Day headers in display order
+    dayLabels(): string[] {
+        return WEEKDAY_LABELS.map((_, i) => WEEKDAY_LABELS[(this.weekStart + i) % 7]);
+    }
+
+    /**
+     * Number of the week row containing date, or null for weeks before the project start.
+     * - iso: the ISO week of the row's middle day, which is exact for Monday rows
+     *   and covers six of seven days otherwise
+     * - us: week 1 is the row containing January 1st
+     * - project: week 1 is the row containing the project start
+     */
+    weekNumber(date: LocalDate): number | null {
+        const rowStart = this.startOf(date);
+
+        if (this.numbering === 'iso') {
+            return isoWeekNumber(rowStart.addDays(3));
+        }
+
+        if (this.numbering === 'project' && this.projectStart) {
+            const weeks = Math.floor(this.startOf(this.projectStart).daysUntil(rowStart) / 7) + 1;
+            return weeks >= 1 ? weeks : null;
+        }
+
+        // A row that runs into January belongs to the new year
+        const rowEnd = rowStart.addDays(6);
+        if (rowEnd.year > rowStart.year) return 1;
+
+        const firstRowStart = this.startOf(LocalDate.of(rowStart.year, 1, 1));
+        return Math.floor(firstRowStart.daysUntil(rowStart) / 7) + 1;
+    }
+}
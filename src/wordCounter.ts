@@ -0,0 +1,112 @@
+import { TFile } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { findFrontmatterKey, parseKeyList, parseWordCount, readField } from './sceneIndex';
+import { WordCountExclusions } from './settings';
+
+// Count the words of a markdown note, leaving out the excluded parts
+export function countWords(text: string, exclusions: WordCountExclusions): number {
+    let body = text.replace(/\r\n?/g, '\n');
+
+    if (exclusions.frontmatter) {
+        body = body.replace(/^---\n[\s\S]*?\n---(?:\n|$)/, '');
+    }
+    if (exclusions.obsidianComments) {
+        body = body.replace(/%%[\s\S]*?(?:%%|$)/g, ' ');
+    }
+    if (exclusions.comments) {
+        body = body.replace(/<!--[\s\S]*?(?:-->|$)/g, ' ');
+    }
+    if (exclusions.code) {
+        body = body
+            .replace(/^(```|~~~)[^\n]*\n[\s\S]*?(?:^\1[^\n]*$|(?![\s\S]))/gm, ' ')
+            .replace(/`[^`\n]*`/g, ' ');
+    }
+    if (exclusions.callouts) {
+        // The callout line and the quoted lines that follow it
+        body = body.replace(/^>\s*\[![^\]]*\][^\n]*(?:\n>[^\n]*)*/gm, ' ');
+    }
+    if (exclusions.headings) {
+        body = body.replace(/^#{1,6}\s[^\n]*$/gm, ' ');
+    }
+
+    body = body
+        // Links count as their display text
+        .replace(/!?\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        // Dashes join words without spaces
+        .replace(/[\u2013\u2014]/g, ' ');
+
+    return body
+        .split(/\s+/)
+        .filter(token => /[A-Za-z0-9\u00C0-\uFFFF]/.test(token))
+        .length;
+}
+
+/**
+ * Word counts computed from scene note bodies. Counts are cached by file
+ * mtime; the scene index reads them synchronously and a file whose count is
+ * missing or stale is counted in the background and then re-indexed.
+ */
+export class WordCounter {
+    private plugin: ManuscriptCalendarPlugin;
+    private cache: Map<string, { mtime: number, words: number }> = new Map();
+    private counting: Set<string> = new Set();
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    // Forget every count, e.g. after the exclusions changed
+    clear() {
+        this.cache.clear();
+    }
+
+    forget(path: string) {
+        this.cache.delete(path);
+    }
+
+    // Cached count for the file's current version, scheduling a count when there is none
+    wordsFor(file: TFile): number | null {
+        const cached = this.cache.get(file.path);
+        if (cached && cached.mtime === file.stat.mtime) {
+            return cached.words;
+        }
+        this.countInBackground(file);
+        return cached ? cached.words : null;
+    }
+
+    private async countInBackground(file: TFile) {
+        if (this.counting.has(file.path)) return;
+        this.counting.add(file.path);
+        try {
+            const mtime = file.stat.mtime;
+            const text = await this.plugin.app.vault.cachedRead(file);
+            const words = countWords(text, this.plugin.settings.wordCount.exclusions);
+            this.cache.set(file.path, { mtime, words });
+            this.plugin.debugLog(`Counted ${words} words in ${file.path}`);
+
+            if (this.plugin.settings.wordCount.writeBack) {
+                await this.writeBack(file, words);
+            }
+            // Re-index the scene now that its count is known
+            this.plugin.sceneIndex.queueUpdate(file);
+        } catch (error) {
+            console.error(`Error counting words in ${file.path}:`, error);
+        } finally {
+            this.counting.delete(file.path);
+        }
+    }
+
+    // Update the first Words field when it holds a different number
+    private async writeBack(file: TFile, words: number) {
+        const fields = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        const keys = parseKeyList(this.plugin.settings.fieldMapping.wordsField);
+        if (keys.length === 0) return;
+        const existingKey = keys.find(key => readField(fields, key) !== undefined);
+        if (existingKey && parseWordCount(readField(fields, existingKey)) === words) return;
+
+        await this.plugin.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            frontmatter[findFrontmatterKey(frontmatter, existingKey ?? keys[0])] = words;
+        });
+    }
+}
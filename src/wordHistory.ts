@@ -0,0 +1,139 @@
+import { TFile, debounce, normalizePath } from 'obsidian';
+import type ManuscriptCalendarPlugin from '../main';
+import { LocalDate } from './dates';
+import { countWords } from './wordCounter';
+
+// Contents of the history file
+interface WordHistoryData {
+    // Last word count seen per scene path
+    baselines: Record<string, number>;
+    // Net words written per day (YYYY-MM-DD) and scene path
+    days: Record<string, Record<string, number>>;
+}
+
+const HISTORY_FILE = 'word-history.json';
+
+/**
+ * Records how many words each scene gained or lost per day, independent of
+ * its status or due date. Every edit is compared with the last count seen
+ * for the file and the difference is credited to today. The log lives in its
+ * own file next to the plugin settings.
+ */
+export class WordHistory {
+    private plugin: ManuscriptCalendarPlugin;
+    private data: WordHistoryData = { baselines: {}, days: {} };
+    private requestSave = debounce(() => this.save(), 2000, true);
+    private requestRefresh = debounce(() => this.plugin.onWordHistoryChanged(), 1000, true);
+
+    constructor(plugin: ManuscriptCalendarPlugin) {
+        this.plugin = plugin;
+    }
+
+    private get path(): string {
+        return normalizePath(`${this.plugin.manifest.dir ?? ''}/${HISTORY_FILE}`);
+    }
+
+    async load() {
+        try {
+            const adapter = this.plugin.app.vault.adapter;
+            if (await adapter.exists(this.path)) {
+                const raw = JSON.parse(await adapter.read(this.path));
+                this.data = {
+                    baselines: raw?.baselines ?? {},
+                    days: raw?.days ?? {}
+                };
+            }
+        } catch (error) {
+            console.error('Error loading the word history:', error);
+        }
+    }
+
+    async save() {
+        try {
+            await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+        } catch (error) {
+            console.error('Error saving the word history:', error);
+        }
+    }
+
+    // Count a scene once so its first edit isn't credited with the whole text
+    async seed(files: TFile[]) {
+        let seeded = 0;
+        for (const file of files) {
+            if (this.data.baselines[file.path] !== undefined) continue;
+            try {
+                const words = this.count(await this.plugin.app.vault.cachedRead(file));
+                // An edit tracked while the file was read already set a newer baseline
+                if (this.data.baselines[file.path] !== undefined) continue;
+                this.data.baselines[file.path] = words;
+                seeded++;
+            } catch (error) {
+                console.error(`Error reading ${file.path} for the word history:`, error);
+            }
+        }
+        if (seeded > 0) {
+            this.plugin.debugLog(`Word history: counted ${seeded} new scene(s)`);
+            this.requestSave();
+        }
+    }
+
+    // Recount every scene without crediting the difference, e.g. after the counting rules changed
+    async rebaseline(files: TFile[]) {
+        this.data.baselines = {};
+        await this.seed(files);
+    }
+
+    // Credit today with the change since the file's last count
+    track(file: TFile, content: string) {
+        const words = this.count(content);
+        const previous = this.data.baselines[file.path];
+        this.data.baselines[file.path] = words;
+        if (previous === undefined || previous === words) {
+            if (previous === undefined) this.requestSave();
+            return;
+        }
+
+        const today = LocalDate.today().key;
+        const day = this.data.days[today] ?? (this.data.days[today] = {});
+        day[file.path] = (day[file.path] ?? 0) + words - previous;
+        this.plugin.debugLog(`Word history: ${file.path} ${words - previous > 0 ? '+' : ''}${words - previous} words`);
+        this.requestSave();
+        this.requestRefresh();
+    }
+
+    // Keep a renamed scene's history under its new path
+    rename(oldPath: string, newPath: string) {
+        if (this.data.baselines[oldPath] === undefined) return;
+        this.data.baselines[newPath] = this.data.baselines[oldPath];
+        delete this.data.baselines[oldPath];
+        Object.values(this.data.days).forEach(day => {
+            if (day[oldPath] === undefined) return;
+            day[newPath] = (day[newPath] ?? 0) + day[oldPath];
+            delete day[oldPath];
+        });
+        this.requestSave();
+    }
+
+    // A deleted scene keeps its written words, but is no longer counted
+    remove(path: string) {
+        if (this.data.baselines[path] === undefined) return;
+        delete this.data.baselines[path];
+        this.requestSave();
+    }
+
+    // Net words written per day, summed over the paths include accepts
+    dailyTotals(include: (path: string) => boolean): Map<string, number> {
+        const totals = new Map<string, number>();
+        Object.entries(this.data.days).forEach(([dateKey, files]) => {
+            const total = Object.entries(files)
+                .filter(([path]) => include(path))
+                .reduce((sum, [, words]) => sum + words, 0);
+            if (total !== 0) totals.set(dateKey, total);
+        });
+        return totals;
+    }
+
+    private count(content: string): number {
+        return countWords(content, this.plugin.settings.wordCount.exclusions);
+    }
+}